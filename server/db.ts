@@ -0,0 +1,115 @@
+import Database from 'better-sqlite3';
+import { LeaderboardCategory, LeaderboardEntry, RunRecord, SaveData } from '../src/types';
+
+// Column to rank by for each leaderboard, with ties broken by the earlier run
+const ORDER_BY: Record<LeaderboardCategory, string> = {
+    score: 'score DESC, created_at ASC',
+    distance: 'distance DESC, created_at ASC',
+    skips: 'skips DESC, created_at ASC',
+};
+
+interface RunRow {
+    id: number;
+    name: string;
+    daily: string | null;
+    score: number;
+    distance: number;
+    skips: number;
+    created_at: number;
+}
+
+const toEntry = (row: RunRow): LeaderboardEntry => ({
+    id: row.id,
+    name: row.name,
+    daily: row.daily,
+    score: row.score,
+    distance: row.distance,
+    skips: row.skips,
+    createdAt: row.created_at,
+});
+
+export class LeaderboardStore {
+    private db: Database.Database;
+
+    constructor(file: string) {
+        this.db = new Database(file);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS runs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                score INTEGER NOT NULL,
+                distance INTEGER NOT NULL,
+                skips INTEGER NOT NULL,
+                record TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS runs_score ON runs (score DESC);
+            CREATE INDEX IF NOT EXISTS runs_distance ON runs (distance DESC);
+            CREATE INDEX IF NOT EXISTS runs_skips ON runs (skips DESC);
+        `);
+
+        // Databases created before the Daily Challenge lack the daily column
+        const columns = this.db.prepare('PRAGMA table_info(runs)').all() as { name: string }[];
+        if (!columns.some(column => column.name === 'daily')) {
+            this.db.exec('ALTER TABLE runs ADD COLUMN daily TEXT');
+        }
+        this.db.exec('CREATE INDEX IF NOT EXISTS runs_daily ON runs (daily, name)');
+
+        // One synced save per player name
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS saves (
+                name TEXT PRIMARY KEY,
+                data TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `);
+    }
+
+    public addRun(name: string, record: RunRecord): LeaderboardEntry {
+        const createdAt = Date.now();
+        const { score, distance, skips } = record.result;
+        const daily = record.daily ?? null;
+        const info = this.db
+            .prepare('INSERT INTO runs (name, daily, score, distance, skips, record, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+            .run(name, daily, score, distance, skips, JSON.stringify(record), createdAt);
+        return { id: Number(info.lastInsertRowid), name, daily, score, distance, skips, createdAt };
+    }
+
+    // All-time table, or one day's Daily Challenge table when a day key is given
+    public top(by: LeaderboardCategory, limit: number, daily?: string): LeaderboardEntry[] {
+        const where = daily ? 'WHERE daily = ?' : '';
+        const params = daily ? [daily, limit] : [limit];
+        const rows = this.db
+            .prepare(`SELECT id, name, daily, score, distance, skips, created_at FROM runs ${where} ORDER BY ${ORDER_BY[by]} LIMIT ?`)
+            .all(...params) as RunRow[];
+        return rows.map(toEntry);
+    }
+
+    // 1-based position of a run on one leaderboard (its day's table for daily runs)
+    public rank(by: LeaderboardCategory, entry: LeaderboardEntry) {
+        const row = entry.daily
+            ? this.db.prepare(`SELECT COUNT(*) AS ahead FROM runs WHERE daily = ? AND ${by} > ?`).get(entry.daily, entry[by])
+            : this.db.prepare(`SELECT COUNT(*) AS ahead FROM runs WHERE ${by} > ?`).get(entry[by]);
+        return (row as { ahead: number }).ahead + 1;
+    }
+
+    public hasDailyRun(name: string, daily: string) {
+        return !!this.db.prepare('SELECT 1 FROM runs WHERE daily = ? AND name = ?').get(daily, name);
+    }
+
+    public getSave(name: string): SaveData | null {
+        const row = this.db.prepare('SELECT data FROM saves WHERE name = ?').get(name) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) : null;
+    }
+
+    public putSave(name: string, save: SaveData) {
+        this.db
+            .prepare('INSERT INTO saves (name, data, updated_at) VALUES (?, ?, ?) ON CONFLICT (name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at')
+            .run(name, JSON.stringify(save), save.updatedAt);
+    }
+
+    public close() {
+        this.db.close();
+    }
+}
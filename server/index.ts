@@ -0,0 +1,145 @@
+import dotenv from 'dotenv';
+import express, { ErrorRequestHandler } from 'express';
+import { LeaderboardCategory, RunRecord, SaveData } from '../src/types';
+import { parseRunRecord } from '../src/utils/replay';
+import { isDailyKey } from '../src/utils/daily';
+import { migrateSave } from '../src/utils/save';
+import { LeaderboardStore } from './db';
+import { verifyRun } from './verify';
+
+// Shared office leaderboard. Run with `npm run server`; the Vite dev server proxies /api here.
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.LEADERBOARD_PORT) || 3001;
+const DB_FILE = process.env.LEADERBOARD_DB || 'leaderboard.db';
+const MAX_LIMIT = 100;
+const MAX_NAME_LENGTH = 24;
+const CATEGORIES: LeaderboardCategory[] = ['score', 'distance', 'skips'];
+
+const store = new LeaderboardStore(DB_FILE);
+const app = express();
+app.use(express.json({ limit: '1mb' })); // Saves carry up to two best-run replays
+
+const readName = (value: unknown) => (typeof value === 'string' ? value.trim().slice(0, MAX_NAME_LENGTH) : '');
+
+// GET /api/leaderboard?by=score|distance|skips&limit=10[&daily=YYYY-MM-DD]
+app.get('/api/leaderboard', (req, res) => {
+    const by = (req.query.by || 'score') as LeaderboardCategory;
+    if (!CATEGORIES.includes(by)) {
+        res.status(400).json({ error: `Unknown leaderboard "${by}"` });
+        return;
+    }
+    const daily = isDailyKey(req.query.daily) ? req.query.daily : undefined;
+    if (req.query.daily !== undefined && !daily) {
+        res.status(400).json({ error: 'daily must be a YYYY-MM-DD day key' });
+        return;
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), MAX_LIMIT);
+    res.json({ by, daily: daily ?? null, entries: store.top(by, limit, daily) });
+});
+
+// POST /api/runs { name, run: RunRecord }
+app.post('/api/runs', (req, res) => {
+    const name = readName(req.body?.name);
+    if (!name) {
+        res.status(400).json({ error: 'A player name is required' });
+        return;
+    }
+
+    const run = req.body?.run;
+    if (!run || typeof run !== 'object' || Array.isArray(run)) {
+        res.status(400).json({ error: 'A run is required' });
+        return;
+    }
+
+    let record: RunRecord;
+    try {
+        record = parseRunRecord(run);
+    } catch (e) {
+        res.status(400).json({ error: `Invalid run: ${(e as Error).message}` });
+        return;
+    }
+
+    // One scored Daily Challenge attempt per player per day
+    if (record.daily && store.hasDailyRun(name, record.daily)) {
+        res.status(409).json({ error: `${name} already played the ${record.daily} Daily Challenge` });
+        return;
+    }
+
+    // Never trust the submitted totals: replay the inputs and compare
+    const verdict = verifyRun(record);
+    if (verdict.ok === false) {
+        res.status(422).json({ error: `Run rejected: ${verdict.reason}` });
+        return;
+    }
+
+    const entry = store.addRun(name, { ...record, result: verdict.result });
+    res.status(201).json({
+        entry,
+        ranks: {
+            score: store.rank('score', entry),
+            distance: store.rank('distance', entry),
+            skips: store.rank('skips', entry),
+        },
+    });
+});
+
+// GET /api/saves/:name
+app.get('/api/saves/:name', (req, res) => {
+    const name = readName(req.params.name);
+    const save = name ? store.getSave(name) : null;
+    if (!save) {
+        res.status(404).json({ error: `No synced save for "${name}"` });
+        return;
+    }
+    res.json({ save });
+});
+
+// PUT /api/saves/:name { save: SaveData }
+// Last write wins by the save's own updatedAt; an older save gets 409 with the newer one back.
+app.put('/api/saves/:name', (req, res) => {
+    const name = readName(req.params.name);
+    if (!name) {
+        res.status(400).json({ error: 'A player name is required' });
+        return;
+    }
+    if (!req.body?.save || typeof req.body.save !== 'object') {
+        res.status(400).json({ error: 'A save is required' });
+        return;
+    }
+
+    const save: SaveData = migrateSave(req.body.save);
+    const existing = store.getSave(name);
+    if (existing && existing.updatedAt > save.updatedAt) {
+        res.status(409).json({ error: 'The synced save is newer', save: existing });
+        return;
+    }
+    store.putSave(name, save);
+    res.json({ save });
+});
+
+// Bodies that aren't JSON get the same { error } reply as every other bad request,
+// instead of express's HTML error page and stack trace
+const handleErrors: ErrorRequestHandler = (err, _req, res, next) => {
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    if (err.type === 'entity.parse.failed') {
+        res.status(400).json({ error: 'Request body is not valid JSON' });
+        return;
+    }
+    // body-parser marks the errors that are safe to show, like a body over the size limit
+    if (err.expose) {
+        res.status(err.status).json({ error: err.message });
+        return;
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+};
+app.use(handleErrors);
+
+app.listen(PORT, () => {
+    console.log(`Leaderboard server listening on http://localhost:${PORT} (db: ${DB_FILE})`);
+});
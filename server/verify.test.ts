@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsWorld } from '../src/utils/physics';
+import { createRunRecord } from '../src/utils/replay';
+import { playRun } from '../src/utils/testUtils';
+import { DEFAULT_UPGRADE_LEVELS, UPGRADES, getPlayerStats, getStatValue } from '../src/utils/upgrades';
+import { verifyRun } from './verify';
+
+const recordRun = () => createRunRecord(playRun(new PhysicsWorld(99, getPlayerStats(DEFAULT_UPGRADE_LEVELS, 'skimmer'), 'skimmer')));
+
+describe('verifyRun', () => {
+    it('accepts a real run', () => {
+        const record = recordRun();
+        expect(verifyRun(record)).toEqual({ ok: true, result: record.result });
+    });
+
+    it('rejects a run whose claimed score the replay does not reach', () => {
+        const record = recordRun();
+        const result = verifyRun({ ...record, result: { ...record.result, score: record.result.score + 1000 } });
+        expect(result).toMatchObject({ ok: false, reason: expect.stringContaining('score') });
+    });
+
+    it('rejects stats below the stone', () => {
+        const record = recordRun();
+        expect(verifyRun({ ...record, stats: { ...record.stats, maxPower: 0 } }).ok).toBe(false);
+    });
+
+    it('rejects in-range stats that no whole upgrade level buys', () => {
+        const record = recordRun();
+        const upgrade = UPGRADES.find(u => u.id === 'maxPower')!;
+        const between = getStatValue(upgrade, 1, 'skimmer') + upgrade.increment / 2;
+        expect(verifyRun({ ...record, stats: { ...record.stats, maxPower: between } })).toMatchObject({ ok: false, reason: expect.stringContaining('maxPower') });
+    });
+
+    it('rejects a stat the shop does not sell', () => {
+        const record = recordRun();
+        expect(verifyRun({ ...record, stats: { ...record.stats, value: record.stats.value + 1 } })).toMatchObject({ ok: false, reason: expect.stringContaining('value') });
+    });
+});
@@ -0,0 +1,90 @@
+import { RunRecord } from '../src/types';
+import { FIXED_DT } from '../src/utils/physics';
+import { simulateRun } from '../src/utils/replay';
+import { DAILY_STATS, getDailyKey, getDailySeed } from '../src/utils/daily';
+import { DEFAULT_UPGRADE_LEVELS, UPGRADES, getPlayerStats, getStatValue } from '../src/utils/upgrades';
+
+// Re-simulates submitted runs so the leaderboard only holds results the engine can reproduce
+
+const MAX_RUN_SECONDS = 30 * 60;
+const MAX_INPUTS = 5000;
+
+export type VerifyResult =
+    | { ok: true; result: RunRecord['result'] }
+    | { ok: false; reason: string };
+
+// The shop only sells whole upgrade levels, so the stats must be exactly what some set of
+// levels buys for this stone: anything in between is hand-edited
+const checkStats = (record: RunRecord) => {
+    const levels = { ...DEFAULT_UPGRADE_LEVELS };
+    for (const upgrade of UPGRADES) {
+        let level = 0;
+        while (level <= upgrade.maxLevel && getStatValue(upgrade, level, record.stone) !== record.stats[upgrade.id]) level++;
+        if (level > upgrade.maxLevel) {
+            return `stat "${upgrade.id}" is not an upgrade level`;
+        }
+        levels[upgrade.id] = level;
+    }
+    const expected = getPlayerStats(levels, record.stone);
+    for (const key of Object.keys(expected) as (keyof RunRecord['stats'])[]) {
+        if (record.stats[key] !== expected[key]) {
+            return `stat "${key}" does not match the stone`;
+        }
+    }
+    return null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const checkDaily = (daily: string, record: RunRecord) => {
+    // Allow a day either side for players in other time zones
+    const now = Date.now();
+    const open = [now - DAY_MS, now, now + DAY_MS].map(t => getDailyKey(new Date(t)));
+    if (!open.includes(daily)) return 'daily challenge is closed';
+    if (record.seed !== getDailySeed(daily)) return 'seed is not the daily seed';
+    if ((record.stone ?? 'pebble') !== 'pebble') return 'the daily challenge uses the pebble';
+    for (const key of Object.keys(DAILY_STATS) as (keyof RunRecord['stats'])[]) {
+        if (record.stats[key] !== DAILY_STATS[key]) return 'stats are not the daily loadout';
+    }
+    return null;
+};
+
+export const verifyRun = (record: RunRecord): VerifyResult => {
+    if (record.ticks <= 0 || record.ticks * FIXED_DT > MAX_RUN_SECONDS) {
+        return { ok: false, reason: 'run length is out of range' };
+    }
+    if (record.inputs.length === 0 || record.inputs.length > MAX_INPUTS) {
+        return { ok: false, reason: 'input count is out of range' };
+    }
+    for (let i = 1; i < record.inputs.length; i++) {
+        if (record.inputs[i].tick < record.inputs[i - 1].tick) {
+            return { ok: false, reason: 'inputs are out of order' };
+        }
+    }
+
+    // Levels have their own par and stars; the leaderboard ranks the endless lake only
+    if (record.level) {
+        return { ok: false, reason: 'level runs are not ranked' };
+    }
+
+    const statsError = record.daily ? checkDaily(record.daily, record) : checkStats(record);
+    if (statsError) return { ok: false, reason: statsError };
+
+    const world = simulateRun(record);
+    if (world.status !== 'GAME_OVER') {
+        return { ok: false, reason: 'run did not end within its recorded length' };
+    }
+
+    const result = {
+        score: world.score,
+        distance: world.distance,
+        skips: world.skips,
+        currency: world.currency,
+    };
+    for (const key of Object.keys(result) as (keyof RunRecord['result'])[]) {
+        if (result[key] !== record.result[key]) {
+            return { ok: false, reason: `${key} ${record.result[key]} does not match the replayed ${result[key]}` };
+        }
+    }
+    return { ok: true, result };
+};
@@ -0,0 +1,116 @@
+import { AudioSettings } from '../types';
+import { HitSound, soundManager } from '../utils/sound';
+import { SOUND_PACKS } from '../utils/soundPacks';
+
+type Channel = 'master' | 'effects' | 'music' | 'ui';
+
+const CHANNELS: { key: Channel; label: string; preview: () => void }[] = [
+  { key: 'master', label: 'Master', preview: () => soundManager.playTargetHit('coin') },
+  { key: 'effects', label: 'Effects', preview: () => soundManager.playWaterSkip() },
+  { key: 'music', label: 'Music', preview: () => soundManager.previewMusic() },
+  { key: 'ui', label: 'Interface', preview: () => soundManager.playUi('confirm') },
+];
+
+const HIT_SOUNDS: HitSound[] = ['normal', 'boost', 'coin', 'block', 'portal', 'bumper', 'magnet', 'bomb'];
+
+// Every effect the game can make, so each can be checked against the sliders
+const EFFECT_PREVIEWS: { label: string; play: () => void }[] = [
+  { label: 'launch', play: () => soundManager.playLaunch() },
+  { label: 'skip', play: () => soundManager.playWaterSkip() },
+  ...HIT_SOUNDS.map(sound => ({ label: sound, play: () => soundManager.playTargetHit(sound) })),
+  { label: 'smash', play: () => soundManager.playSmash({ intensity: 1 }) },
+  { label: 'power-up', play: () => soundManager.playPowerUp() },
+  { label: 'dive', play: () => soundManager.playDive() },
+  { label: 'game over', play: () => soundManager.playGameOver() },
+  { label: 'click', play: () => soundManager.playUi('click') },
+  { label: 'deny', play: () => soundManager.playUi('deny') },
+];
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  onClose: () => void;
+}
+
+// Mixer modal; changes apply immediately and the caller persists them
+export default function AudioSettingsPanel({ settings, onChange, onClose }: AudioSettingsPanelProps) {
+  const set = <K extends keyof AudioSettings>(key: K, value: AudioSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex items-center justify-center backdrop-blur-sm z-50" onClick={onClose}>
+      <div className="bg-slate-900 p-6 rounded-2xl border border-indigo-500/30 shadow-2xl w-full max-w-md animate-in fade-in zoom-in duration-200 overflow-y-auto max-h-[80vh] text-left" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-white">AUDIO</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {CHANNELS.map(channel => (
+            <div key={channel.key} className="flex items-center gap-3">
+              <div className="w-20 text-xs text-slate-400 uppercase tracking-widest">{channel.label}</div>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings[channel.key]}
+                onChange={e => set(channel.key, parseFloat(e.target.value))}
+                disabled={settings.muted}
+                className="flex-1 accent-indigo-500 disabled:opacity-40"
+              />
+              <div className="w-10 text-right text-xs font-mono text-slate-300">{Math.round(settings[channel.key] * 100)}%</div>
+              <button
+                onClick={channel.preview}
+                className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-white"
+                title={`Preview ${channel.label.toLowerCase()}`}
+              >
+                ▶
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-2 mt-6 text-sm text-slate-300">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.muted} onChange={e => set('muted', e.target.checked)} className="accent-indigo-500" />
+            Mute all sound
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.reduceHarsh} onChange={e => set('reduceHarsh', e.target.checked)} className="accent-indigo-500" />
+            Reduce harsh sounds
+            <span className="text-xs text-slate-500">(softer block and bomb hits)</span>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-3 mt-6 text-xs text-slate-400 uppercase tracking-widest">
+          Sound Pack
+          <select
+            value={settings.soundPack ?? ''}
+            onChange={e => set('soundPack', e.target.value || null)}
+            className="flex-1 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white font-mono text-xs normal-case tracking-normal focus:outline-none focus:border-indigo-400"
+          >
+            <option value="">Synth only</option>
+            {SOUND_PACKS.map(pack => <option key={pack.id} value={pack.id}>{pack.name}</option>)}
+          </select>
+        </label>
+
+        <div className="mt-6">
+          <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Preview Sounds</div>
+          <div className="grid grid-cols-3 gap-1">
+            {EFFECT_PREVIEWS.map(preview => (
+              <button
+                key={preview.label}
+                onClick={preview.play}
+                className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded font-mono text-[10px] text-slate-300 hover:text-white uppercase"
+              >
+                {preview.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,36 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { GameState, PlayerStats, SurfaceNumber, Particle, LifetimeStats } from '../types';
-import { GRAVITY, AIR_RESISTANCE, SURFACE_Y_OFFSET, generateSurfaceNumber, randomRange } from '../utils/gameUtils';
-import { soundManager } from '../utils/sound';
-
-const CANVAS_WIDTH = 1200;
-const CANVAS_HEIGHT = 600;
-const POWER_SCALE = 0.15; // Define globally
+import { AudioSettings, GameState, PlayerStats, Particle, LifetimeStats, PhysicsEvent, RunRecord, BestRuns, GhostTarget, DailyAttempt, SaveData, SaveStore, UpgradeDef, UpgradeLevels, CosmeticKind, CosmeticsState, StoneSkin, TrailSkin, StoneCollection, StoneType, StoneTypeId, LevelDef, LevelProgress, SurfaceNumber } from '../types';
+import { AIR_RESISTANCE, SURFACE_Y, SURFACE_Y_OFFSET, CANVAS_WIDTH, CANVAS_HEIGHT, randomRange } from '../utils/gameUtils';
+import { PhysicsWorld, computeLaunchVelocity, getSpinLift, getTargetOffsetY, POWER_UP_RADIUS, FIXED_DT, START_X, START_Y, DEFAULT_PLAYER_STATS } from '../utils/physics';
+import { randomSeed } from '../utils/rng';
+import { ReplayPlayer, createRunRecord, serializeReplay, parseReplay } from '../utils/replay';
+import { submitRun, syncSave } from '../utils/leaderboard';
+import { DAILY_STATS, getDailyKey, getDailySeed } from '../utils/daily';
+import { DEFAULT_LIFETIME_STATS, SAVE_SLOTS, createDefaultSave, exportSave, getSlot, importSave, loadSaveStore, replaceSlot, resetSlot, setActiveSlot, writeAudioSettings, writeDailyAttempt, writeSlot } from '../utils/save';
+import { DEFAULT_UPGRADE_LEVELS, UPGRADES, getPlayerStats, getStatValue, getUpgradeCost } from '../utils/upgrades';
+import { DEFAULT_COSMETICS, STONE_SKINS, TRAIL_SKINS, drawStone, getSkin, getTrail } from '../utils/cosmetics';
+import { DEFAULT_STONES, STONE_TYPES, STONE_TYPE_IDS } from '../utils/stones';
+import { describeWeather, getWaveScale } from '../utils/weather';
+import { getBiomeById, getBiomePalette, rgba } from '../utils/biomes';
+import { MAX_STARS, createBlankLevel, formatStars, getLevelStars, mergeLevelProgress, parseLevel, serializeLevel, sortLevelTargets } from '../utils/levels';
+import { CAMPAIGN, LEVEL_PACKS, getNextLevel, isCampaignLevel } from '../utils/levelPacks';
+import { FULL_HIT_FORCE, FULL_SPLASH_SPEED, SoundCue, getImpactIntensity, soundManager } from '../utils/sound';
+import { getSoundPack } from '../utils/soundPacks';
+import { getStepAlpha, lerp, runFixedSteps } from '../utils/timestep';
+import { InputActions, inputController } from '../utils/input';
+import { TARGET_TYPES, TARGET_TYPE_IDS } from '../utils/targets';
+import { POWER_UPS, POWER_UP_IDS } from '../utils/powerups';
+import LeaderboardPanel from './LeaderboardPanel';
+import StonePreview from './StonePreview';
+import LevelSelect from './LevelSelect';
+import LevelEditorPanel from './LevelEditorPanel';
+import AudioSettingsPanel from './AudioSettingsPanel';
+
+// Render-side effects run in real time (seconds), independent of the physics step
+const MAX_FRAME_TIME = 0.25;
+const PARTICLE_GRAVITY = 720; // px/s^2
+const PARTICLE_FADE = 1.2; // life per second
+const FLOATING_TEXT_FADE = 0.9;
 
 export default function GameCanvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -14,72 +39,78 @@ export default function GameCanvas() {
   // Game State
   const [gameState, setGameState] = useState<GameState['status']>('MENU');
   const [stats, setStats] = useState({ distance: 0, skips: 0, score: 0, currency: 0, combo: 0 });
-  const [, forceUpdate] = useState(0);
   const [debugInfo, setDebugInfo] = useState('');
   const [liveDebug, setLiveDebug] = useState(''); // New live debug
   const [showTutorial, setShowTutorial] = useState(true);
   const [showRules, setShowRules] = useState(false);
+  const [showAudio, setShowAudio] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(soundManager.getSettings());
   const [diveEffect, setDiveEffect] = useState<{x: number, y: number, id: number} | null>(null);
   
-  const [lifetimeStats, setLifetimeStats] = useState<LifetimeStats>({
-      totalDistance: 0,
-      totalSkips: 0,
-      totalScore: 0,
-      highScore: 0,
-      maxDistance: 0,
-      gamesPlayed: 0
-  });
-
-  // Load stats
-  useEffect(() => {
-      const saved = localStorage.getItem('stoneSkipperStats');
-      if (saved) {
-          try {
-              setLifetimeStats(JSON.parse(saved));
-          } catch (e) {
-              console.error("Failed to load stats", e);
-          }
-      }
-  }, []);
-
-  // Save stats on Game Over
-  useEffect(() => {
-      if (gameState === 'GAME_OVER') {
-          setLifetimeStats(prev => {
-              const newStats = {
-                  totalDistance: prev.totalDistance + stats.distance,
-                  totalSkips: prev.totalSkips + stats.skips,
-                  totalScore: prev.totalScore + stats.score,
-                  highScore: Math.max(prev.highScore, stats.score),
-                  maxDistance: Math.max(prev.maxDistance, stats.distance),
-                  gamesPlayed: prev.gamesPlayed + 1
-              };
-              localStorage.setItem('stoneSkipperStats', JSON.stringify(newStats));
-              return newStats;
-          });
-      }
-  }, [gameState]);
+  const [lifetimeStats, setLifetimeStats] = useState<LifetimeStats>({ ...DEFAULT_LIFETIME_STATS });
+
+  // Save slots
+  const [saveStore, setSaveStore] = useState<SaveStore | null>(null);
+  const [activeSlot, setActiveSlotState] = useState(0);
+  const [saveMessage, setSaveMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const saveFileRef = useRef<HTMLInputElement>(null);
+
+  // Replay of the last finished run (or an imported one)
+  const [lastRun, setLastRun] = useState<RunRecord | null>(null);
+  const [replayView, setReplayView] = useState<{ paused: boolean; speed: number; tick: number; length: number; startTick: number } | null>(null);
+  const replayRef = useRef<ReplayPlayer | null>(null);
+  const replayReturnRef = useRef<GameState['status']>('GAME_OVER');
+  const replayFileRef = useRef<HTMLInputElement>(null);
+
+  // Daily Challenge
+  const [dailyAttempt, setDailyAttempt] = useState<DailyAttempt | null>(null);
+  const [isDailyRun, setIsDailyRun] = useState(false);
+  const dailyKeyRef = useRef<string | null>(null);
+  const todayKey = getDailyKey();
+  const dailyPlayed = dailyAttempt?.key === todayKey;
+
+  // Shared leaderboard
+  const [playerName, setPlayerName] = useState(() => localStorage.getItem('skipball_player_name') || '');
+  const [submission, setSubmission] = useState<{ status: 'idle' | 'sending' | 'done' | 'error'; message?: string; entryId?: number }>({ status: 'idle' });
+  const [leaderboardKey, setLeaderboardKey] = useState(0);
+
+  // Ghost racing against a personal best
+  const [bestRuns, setBestRuns] = useState<BestRuns>({});
+  const [ghostTarget, setGhostTarget] = useState<GhostTarget | null>(null);
+  const [ghostDelta, setGhostDelta] = useState<number | null>(null);
+  const ghostRef = useRef<ReplayPlayer | null>(null);
+  const prevGhostRef = useRef({ x: START_X, y: START_Y });
 
   // Mutable Game Objects (Refs for performance in loop)
-  const playerRef = useRef({
-    x: 100,
-    y: CANVAS_HEIGHT - SURFACE_Y_OFFSET - 30,
-    vx: 0,
-    vy: 0,
-    radius: 25,
-    rotation: 0,
-    vr: 0, // rotational velocity
-  });
-
-  const playerStatsRef = useRef<PlayerStats>({
-    value: 10,
-    weight: 1.0,
-    bounciness: 0.7,
-    aerodynamics: 0.99,
-    maxPower: 25,
-  });
+  const playerStatsRef = useRef<PlayerStats>({ ...DEFAULT_PLAYER_STATS });
+  const [upgradeLevels, setUpgradeLevels] = useState<UpgradeLevels>({ ...DEFAULT_UPGRADE_LEVELS });
+  const [cosmetics, setCosmetics] = useState<CosmeticsState>(DEFAULT_COSMETICS);
+  const [stones, setStones] = useState<StoneCollection>(DEFAULT_STONES);
+  const [shopTab, setShopTab] = useState<'upgrades' | 'cosmetics'>('upgrades');
+  const upgradeButtonsRef = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Levels
+  const [levelProgress, setLevelProgress] = useState<Record<string, LevelProgress>>({});
+  const [showLevels, setShowLevels] = useState(false);
+  const [levelResult, setLevelResult] = useState<{ level: LevelDef; stars: number; completed: boolean } | null>(null);
+  const nextLevel = levelResult ? getNextLevel(levelResult.level.id) : null;
+
+  // Level editor: the level under edit is shown on the game canvas, frozen before launch
+  const [editor, setEditor] = useState<{ level: LevelDef; selected: number | null; tool: SurfaceNumber['type'] }>(() => ({
+    level: createBlankLevel({ x: START_X, y: START_Y }),
+    selected: null,
+    tool: 'NORMAL',
+  }));
+  const [editorMessage, setEditorMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const editorDragRef = useRef<{ index: number; offsetX: number } | null>(null);
+  const levelFileRef = useRef<HTMLInputElement>(null);
+  const campaignStars = CAMPAIGN.reduce((sum, level) => sum + (levelProgress[level.id]?.stars ?? 0), 0);
+
+  const worldRef = useRef<PhysicsWorld>(null!);
+  if (!worldRef.current) {
+    worldRef.current = new PhysicsWorld(randomSeed(), playerStatsRef.current);
+  }
 
-  const surfaceRef = useRef<SurfaceNumber[]>([]);
   const particlesRef = useRef<Particle[]>([]);
   
   // Floating Text System
@@ -101,411 +132,600 @@ export default function GameCanvas() {
           text,
           color,
           life: 1.0,
-          vy: -2,
+          vy: -120, // px per second
           size
       });
   };
 
   const cameraRef = useRef({ x: 0, y: 0, shake: 0 });
+  const lastFrameTimeRef = useRef(0);
+  const accumulatorRef = useRef(0);
+  const prevPlayerRef = useRef({ x: START_X, y: START_Y, rotation: 0, time: 0 });
   const inputRef = useRef({ isDragging: false, startX: 0, startY: 0, currentX: 0, currentY: 0 });
-  const timeRef = useRef(0);
-  const stoppedFramesRef = useRef(0);
-
-  // Initialize Surface
-  const initSurface = useCallback(() => {
-    const numbers: SurfaceNumber[] = [];
-    for (let i = 0; i < 20; i++) {
-      numbers.push(generateSurfaceNumber(300 + i * 80, 1));
-    }
-    surfaceRef.current = numbers;
-  }, []);
 
-  // Reset Run
-  const resetRun = () => {
-    playerRef.current = {
-      x: 100,
-      y: CANVAS_HEIGHT - SURFACE_Y_OFFSET - 30, // Sit on top of plank (plank is at surfaceY - 10)
-      vx: 0,
-      vy: 0,
-      radius: 20 + (playerStatsRef.current.weight * 5), // Scale size with weight
-      rotation: 0,
-      vr: 0,
-    };
+  // Start a run on a given lake with a given stone (daily runs pass their day key, level runs their level)
+  const startRun = (seed: number, runStats: PlayerStats, daily: string | null, stone: StoneTypeId = 'pebble', level: LevelDef | null = null) => {
+    replayRef.current = null;
+    setReplayView(null);
+    worldRef.current = new PhysicsWorld(seed, runStats, stone, level);
+    snapInterpolation(worldRef.current);
+    dailyKeyRef.current = daily;
+    setIsDailyRun(daily !== null);
+    setLevelResult(null);
+    setShowLevels(false);
+
+    // Ghost sits at the moment its run launched, ready to go with ours (not on the daily lake or a level)
+    const ghostRecord = ghostTarget && !daily && !level ? bestRuns[ghostTarget] : undefined;
+    if (ghostRecord) {
+        const ghost = new ReplayPlayer(ghostRecord);
+        ghost.seek(ghost.firstInputTick);
+        ghostRef.current = ghost;
+        prevGhostRef.current = { x: ghost.world.player.x, y: ghost.world.player.y };
+        setGhostDelta(0);
+    } else {
+        ghostRef.current = null;
+        setGhostDelta(null);
+    }
     cameraRef.current.x = 0;
     cameraRef.current.y = 0;
     cameraRef.current.shake = 0;
     setStats(prev => ({ ...prev, distance: 0, skips: 0, score: 0, combo: 0 }));
-    initSurface();
     setGameState('AIMING');
   };
 
-  // Load Data
-  useEffect(() => {
-    const saved = localStorage.getItem('skipball_save_v1');
-    if (saved) {
-        try {
-            const data = JSON.parse(saved);
-            setStats(prev => ({ ...prev, currency: data.currency || 0 }));
-            if (data.upgrades) {
-                playerStatsRef.current = { ...playerStatsRef.current, ...data.upgrades };
-            }
-        } catch (e) {
-            console.error("Save load failed", e);
-        }
+  // Reset Run (a level restarts the same level)
+  const resetRun = () => startRun(randomSeed(), playerStatsRef.current, null, stones.selected, worldRef.current.level);
+  // Keys and pad on the results screen: arrows / d-pad step the focus through the upgrades
+  // that can be bought (Enter on one is the button's own click), pad A buys the focused one,
+  // and otherwise Enter / Start / A play again. The game loop only sees the first render's closures.
+  const handleResultsInput = (actions: InputActions) => {
+      if (actions.shopMove && shopTab !== 'upgrades') {
+          setShopTab('upgrades');
+          return;
+      }
+      const buttons = upgradeButtonsRef.current.filter(button => button && !button.disabled);
+      const focused = buttons.indexOf(document.activeElement as HTMLButtonElement);
+      if (actions.shopMove) {
+          if (buttons.length === 0) {
+              soundManager.playUi('deny');
+              return;
+          }
+          const next = focused < 0
+              ? (actions.shopMove > 0 ? 0 : buttons.length - 1)
+              : (focused + actions.shopMove + buttons.length) % buttons.length;
+          buttons[next].focus();
+      }
+      if (actions.select && focused >= 0) buttons[focused].click();
+      else if (actions.confirm || actions.select) resetRun();
+  };
+  const resultsInputRef = useRef(handleResultsInput);
+  resultsInputRef.current = handleResultsInput;
+
+  const startEndlessRun = () => startRun(randomSeed(), playerStatsRef.current, null, stones.selected);
+
+  const startLevel = (level: LevelDef) => startRun(randomSeed(), playerStatsRef.current, null, stones.selected, level);
+
+  const openLevels = () => {
+    setShowLevels(true);
+    setGameState('MENU');
+  };
+
+  const startDailyChallenge = () => {
+    const key = getDailyKey();
+    if (dailyAttempt?.key === key) return;
+    startRun(getDailySeed(key), DAILY_STATS, key);
+  };
+
+  const saveDailyAttempt = (attempt: DailyAttempt) => {
+    setDailyAttempt(attempt);
+    setSaveStore(writeDailyAttempt(attempt));
+  };
+
+  // Rebuilds the stone from its type and upgrades; the waiting stone on the plank picks it up straight away
+  const equipStone = (levels: UpgradeLevels, stone: StoneTypeId) => {
+    playerStatsRef.current = getPlayerStats(levels, stone);
+    const world = worldRef.current;
+    if (world.inputs.length === 0 && !replayRef.current) {
+      worldRef.current = new PhysicsWorld(world.seed, playerStatsRef.current, stone, world.level);
     }
+  };
+
+  // Put a slot's progress into play
+  const applySlot = (slot: number, data: SaveData) => {
+    setActiveSlotState(slot);
+    setStats(prev => ({ ...prev, currency: data.currency }));
+    setUpgradeLevels(data.upgrades);
+    setCosmetics(data.cosmetics);
+    setStones(data.stones);
+    equipStone(data.upgrades, data.stones.selected);
+    setLifetimeStats(data.lifetime);
+    setBestRuns(data.bestRuns);
+    setLevelProgress(data.levels);
+    setGhostTarget(null);
+    setLastRun(null);
+  };
+
+  const currentSlotData = () => ({
+    currency: stats.currency,
+    upgrades: upgradeLevels,
+    cosmetics,
+    stones,
+    lifetime: lifetimeStats,
+    bestRuns,
+    levels: levelProgress,
+  });
+
+  // Load Data (migrates the old per-feature keys on first run)
+  useEffect(() => {
+    const store = loadSaveStore();
+    setSaveStore(store);
+    setDailyAttempt(store.daily);
+    setAudioSettings(store.audio);
+    soundManager.applySettings(store.audio);
+    applySlot(store.activeSlot, getSlot(store, store.activeSlot));
   }, []);
 
+  // Music plays through runs and replays, and rests on the menus and results
+  useEffect(() => {
+    if (gameState === 'AIMING' || gameState === 'FLYING' || gameState === 'SINKING' || gameState === 'REPLAY') {
+        soundManager.startMusic();
+    } else {
+        soundManager.stopMusic();
+    }
+  }, [gameState]);
+
+  useEffect(() => () => soundManager.stopMusic(), []);
+
+  // Sounds without a sample in the pack keep their synth recipe
+  useEffect(() => {
+    soundManager.setSoundPack(getSoundPack(audioSettings.soundPack));
+  }, [audioSettings.soundPack]);
+
+  const changeAudioSettings = (settings: AudioSettings) => {
+    setAudioSettings(settings);
+    soundManager.applySettings(settings);
+    setSaveStore(writeAudioSettings(settings));
+  };
+
   // Save Data
   useEffect(() => {
-      const save = () => {
-          const data = {
-              currency: stats.currency,
-              upgrades: playerStatsRef.current
-          };
-          localStorage.setItem('skipball_save_v1', JSON.stringify(data));
-      };
+      if (!saveStore) return; // Not loaded yet
+      const save = () => setSaveStore(writeSlot(activeSlot, currentSlotData()));
       // Debounce save slightly or just save on key events
       const timeout = setTimeout(save, 1000);
       return () => clearTimeout(timeout);
-  }, [stats.currency, playerStatsRef.current]); // Save when money or upgrades change
+  }, [stats.currency, upgradeLevels, cosmetics, stones, lifetimeStats, bestRuns, levelProgress, activeSlot]); // Save when progress changes
+
+  const switchSlot = (slot: number) => {
+    if (slot === activeSlot) return;
+    writeSlot(activeSlot, currentSlotData());
+    const store = setActiveSlot(slot);
+    setSaveStore(store);
+    applySlot(slot, getSlot(store, slot));
+  };
 
-  // Game Loop
-  const update = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const resetProgress = () => {
+    if (!confirm(`Reset all progress in slot ${activeSlot + 1}? Upgrades, currency, stats and best runs will be lost.`)) return;
+    setSaveStore(resetSlot(activeSlot));
+    applySlot(activeSlot, createDefaultSave());
+  };
 
-    timeRef.current += 0.05;
+  // Flushes pending progress so exports and syncs see the latest save
+  const flushSlot = () => {
+    const store = writeSlot(activeSlot, currentSlotData());
+    setSaveStore(store);
+    return getSlot(store, activeSlot);
+  };
 
-    // --- PHYSICS ---
-    if (gameState === 'FLYING' || gameState === 'SINKING') {
-      const p = playerRef.current;
-      
-      // Gravity
-      if (gameState === 'FLYING') {
-        const LOCAL_GRAVITY = 0.8; // Force local gravity to ensure it's not 0
-        p.vy += LOCAL_GRAVITY * (playerStatsRef.current.weight || 1.0);
-        
-        p.vx *= AIR_RESISTANCE * playerStatsRef.current.aerodynamics;
-        p.vy *= AIR_RESISTANCE; // Simple air drag
-        p.rotation += p.vr;
-        p.vr *= 0.98; // Rotational drag to stop infinite spinning
-        
-        // Safety check for NaN
-        if (isNaN(p.vx)) p.vx = 0;
-        if (isNaN(p.vy)) p.vy = 0;
-        if (isNaN(p.x)) p.x = 100;
-        if (isNaN(p.y)) p.y = CANVAS_HEIGHT - SURFACE_Y_OFFSET - 30;
-        
-        // Cap vertical velocity to prevent shooting into space
-        if (p.vy < -25) p.vy = -25;
+  const exportSaveFile = () => {
+    const blob = new Blob([exportSave(flushSlot())], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `skipball-save-slot${activeSlot + 1}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-        // Check if stopped moving (stuck on target or water)
-        const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-        if (speed < 1.0) { // Increased threshold slightly
-            stoppedFramesRef.current++;
-            if (stoppedFramesRef.current > 30) { // 0.5 second of stillness (faster reaction)
-                // If we are here, we are resting on a target (otherwise we would have sunk)
-                // Allow the player to shoot again!
-                setGameState('AIMING'); 
-                stoppedFramesRef.current = 0;
-                
-                // Reset velocity completely to prevent drift
-                p.vx = 0;
-                p.vy = 0;
-                p.vr = 0;
-            }
-        } else {
-            stoppedFramesRef.current = 0;
+  const copySaveCode = () => {
+    navigator.clipboard.writeText(exportSave(flushSlot()))
+      .then(() => setSaveMessage({ text: 'Save code copied' }))
+      .catch(err => {
+        console.error("Save copy failed", err);
+        setSaveMessage({ text: "Couldn't copy the save code", error: true });
+      });
+  };
+
+  const importSaveCode = (code: string) => {
+    let data: SaveData;
+    try {
+      data = importSave(code);
+    } catch (err) {
+      console.error("Save import failed", err);
+      setSaveMessage({ text: `Couldn't import save: ${(err as Error).message}`, error: true });
+      return;
+    }
+    if (!confirm(`Replace slot ${activeSlot + 1} with the imported save (${data.lifetime.highScore.toLocaleString()} pts high score)?`)) return;
+    // A deliberate import counts as the newest change, so it wins the next sync
+    setSaveStore(writeSlot(activeSlot, data));
+    applySlot(activeSlot, data);
+    setSaveMessage({ text: 'Save imported' });
+  };
+
+  const importSaveFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(importSaveCode);
+  };
+
+  const pasteSaveCode = () => {
+    const code = prompt('Paste a save code');
+    if (code) importSaveCode(code);
+  };
+
+  const syncSlot = () => {
+    const name = playerName.trim();
+    if (!name) {
+      setSaveMessage({ text: 'Enter a player name to sync', error: true });
+      return;
+    }
+    localStorage.setItem('skipball_player_name', name);
+    setSaveMessage({ text: 'Syncing...' });
+    syncSave(name, flushSlot())
+      .then(({ save, source }) => {
+        if (source === 'remote') {
+          setSaveStore(replaceSlot(activeSlot, save));
+          applySlot(activeSlot, save);
         }
+        setSaveMessage({ text: source === 'remote' ? `Loaded ${name}'s newer save` : `Saved as ${name}` });
+      })
+      .catch(err => {
+        console.error("Save sync failed", err);
+        setSaveMessage({ text: `Sync failed: ${err.message}`, error: true });
+      });
+  };
+
+  // Save stats and keep the run's record on Game Over
+  const finishRun = (world: PhysicsWorld) => {
+      const daily = dailyKeyRef.current;
+      const record = createRunRecord(world, daily ?? undefined);
+      if (daily) {
+          saveDailyAttempt({ key: daily, finished: true, score: world.score, distance: world.distance, skips: world.skips });
+      }
+      setLastRun(record);
+      setSubmission({ status: 'idle' });
+
+      // Level runs count towards stars and lifetime totals, but not the endless bests or ghosts
+      const level = world.level;
+      if (level) {
+          const stars = getLevelStars(level, world.score, world.completed);
+          setLevelResult({ level, stars, completed: world.completed });
+          if (!isCampaignLevel(level)) return; // Editor test play
+          if (world.completed) {
+              setLevelProgress(prev => ({ ...prev, [level.id]: mergeLevelProgress(prev[level.id], stars, world.score) }));
+          }
+          setLifetimeStats(prev => ({
+              ...prev,
+              totalDistance: prev.totalDistance + world.distance,
+              totalSkips: prev.totalSkips + world.skips,
+              totalScore: prev.totalScore + world.score,
+              gamesPlayed: prev.gamesPlayed + 1
+          }));
+          return;
       }
 
-      // Movement
-      p.x += p.vx;
-      p.y += p.vy;
+      setBestRuns(prev => {
+          const next = { ...prev };
+          if (record.result.score > (prev.highScore?.result.score ?? 0)) next.highScore = record;
+          if (record.result.distance > (prev.maxDistance?.result.distance ?? 0)) next.maxDistance = record;
+          if (next.highScore === prev.highScore && next.maxDistance === prev.maxDistance) return prev;
+          return next;
+      });
+      setLifetimeStats(prev => ({
+          totalDistance: prev.totalDistance + world.distance,
+          totalSkips: prev.totalSkips + world.skips,
+          totalScore: prev.totalScore + world.score,
+          highScore: Math.max(prev.highScore, world.score),
+          maxDistance: Math.max(prev.maxDistance, world.distance),
+          gamesPlayed: prev.gamesPlayed + 1
+      }));
+  };
 
-      // Speed Trail
-      const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-      if (speed > 20 && Math.random() > 0.5) {
-          createParticles(p.x, p.y, 1, '#6366f1'); // Indigo trail
-      }
+  // Pans a sound to where it happens in the view
+  const soundCue = (x: number, cue: SoundCue = {}): SoundCue => ({
+      ...cue,
+      pan: ((x - cameraRef.current.x) / CANVAS_WIDTH) * 2 - 1,
+  });
 
-      // Surface Collision / Generation
-      const surfaceY = CANVAS_HEIGHT - SURFACE_Y_OFFSET;
-      
-      // Generate new surface numbers if needed
-      const rightmost = surfaceRef.current[surfaceRef.current.length - 1];
-      if (rightmost.x < cameraRef.current.x + CANVAS_WIDTH + 200) {
-        const difficulty = 1 + (p.x / 5000); // Difficulty scales with distance
-        // Closer together (was 60-100)
-        surfaceRef.current.push(generateSurfaceNumber(rightmost.x + randomRange(50, 80), difficulty));
+  // Turn simulation events into particles, text, shake and sound.
+  // Replayed events are presentation only: they don't touch game state or currency.
+  const handlePhysicsEvents = (events: PhysicsEvent[], world: PhysicsWorld, live: boolean) => {
+      // Test plays of edited levels don't pay out
+      const pays = live && (!world.level || isCampaignLevel(world.level));
+      for (const event of events) {
+          switch (event.type) {
+              case 'status':
+                  if (!live) break;
+                  setGameState(event.status);
+                  if (event.status === 'GAME_OVER') {
+                      finishRun(world);
+                  }
+                  break;
+
+              case 'biome':
+                  createFloatingText(world.player.x + 150, world.player.y - 120, getBiomeById(event.biome).name.toUpperCase(), '#fff', 28);
+                  break;
+
+              case 'weather':
+                  createFloatingText(world.player.x + 150, world.player.y - 80, describeWeather(event.weather).join(' · '), '#7dd3fc', 22);
+                  break;
+
+              case 'launch':
+                  if (event.isPerfect) {
+                      createParticles(event.x, event.y, 20, '#fbbf24');
+                  }
+                  soundManager.playLaunch(soundCue(event.x));
+                  // The first throw uses up today's scored attempt, even if the run is abandoned
+                  if (live && dailyKeyRef.current && world.inputs.length === 1) {
+                      saveDailyAttempt({ key: dailyKeyRef.current, finished: false, score: 0, distance: 0, skips: 0 });
+                  }
+                  break;
+
+              case 'dive':
+                  createParticles(event.x, event.y, 10, '#fff');
+                  setDiveEffect({ x: event.x, y: event.y, id: Date.now() });
+                  soundManager.playDive(soundCue(event.x));
+                  setTimeout(() => setDiveEffect(null), 500);
+                  break;
+
+              case 'multiHit':
+                  createParticles(event.x, event.targetY, 5, event.target.color);
+                  createFloatingText(event.x, event.y - 30, "HIT!", '#fff', 20);
+                  soundManager.playTargetHit('block', soundCue(event.x));
+                  break;
+
+              case 'targetHit': {
+                  const num = event.target;
+                  const behavior = TARGET_TYPES[num.type];
+                  const intensity = getImpactIntensity(event.impactForce, FULL_HIT_FORCE);
+                  if (event.isSmash) {
+                      createParticles(event.x, event.targetY, 40, '#fff'); // Big explosion
+                      createParticles(event.x, event.targetY, 20, num.color);
+                      cameraRef.current.shake = 40;
+                      createFloatingText(event.x, event.y - 50, "SMASH!", '#ef4444', 40);
+                      createFloatingText(event.x, event.y - 20, `+500`, '#fbbf24', 30);
+                      soundManager.playSmash(soundCue(event.x, { intensity }));
+                  } else {
+                      createParticles(event.x, event.targetY, 10, num.color);
+                      cameraRef.current.shake = Math.min(event.impactForce / 5, 20);
+                      createFloatingText(event.x, event.y - 30, `+${num.value * 10}`, '#fbbf24', 20);
+                      soundManager.playTargetHit(behavior.sound, soundCue(event.x, { intensity, combo: event.combo }));
+                  }
+
+                  if (event.combo > 1) {
+                      createFloatingText(event.x + 50, event.y - 50, `${event.combo}x COMBO`, '#818cf8', 24);
+                  }
+
+                  if (behavior.callout) {
+                      createFloatingText(event.x, event.y - behavior.callout.rise, behavior.callout.text, num.color, behavior.callout.size);
+                  }
+
+                  if (pays) {
+                      setStats(prev => ({ ...prev, currency: prev.currency + event.currency }));
+                  }
+                  break;
+              }
+
+              case 'portal':
+                  createParticles(event.x, event.y, 20, TARGET_TYPES.PORTAL.color);
+                  createParticles(event.exitX, event.exitY, 20, TARGET_TYPES.PORTAL.color);
+                  createFloatingText(event.exitX, event.exitY - 60, "WARP!", TARGET_TYPES.PORTAL.color, 30);
+                  break;
+
+              case 'powerUp': {
+                  const def = POWER_UPS[event.powerUp];
+                  createParticles(event.x, event.y, 25, def.color);
+                  createFloatingText(event.x, event.y - 40, `${def.icon} ${def.name.toUpperCase()}!`, def.color, 28);
+                  soundManager.playPowerUp(soundCue(event.x));
+                  break;
+              }
+
+              case 'powerUpEnd':
+                  if (event.powerUp !== 'shield') {
+                      createFloatingText(world.player.x, world.player.y - 60, `${POWER_UPS[event.powerUp].name} over`, '#94a3b8', 16);
+                  }
+                  break;
+
+              case 'shield':
+                  createParticles(event.x, event.y, 30, POWER_UPS.shield.color);
+                  cameraRef.current.shake = 15;
+                  createFloatingText(event.x, event.y - 50, "SAVED!", POWER_UPS.shield.color, 32);
+                  soundManager.playTargetHit('bumper', soundCue(event.x));
+                  break;
+
+              case 'bomb':
+                  createParticles(event.x, event.y, 40, TARGET_TYPES.BOMB.color);
+                  event.targets.forEach(target => createParticles(target.x, event.y, 10, target.color));
+                  cameraRef.current.shake = 40;
+                  createFloatingText(event.x, event.y - 90, "BOOM!", TARGET_TYPES.BOMB.color, 40);
+                  if (event.points > 0) {
+                      createFloatingText(event.x, event.y - 130, `+${event.points}`, '#fbbf24', 30);
+                  }
+                  if (pays) {
+                      setStats(prev => ({ ...prev, currency: prev.currency + event.currency }));
+                  }
+                  break;
+
+              case 'waterSkip':
+                  createParticles(event.x, event.y, 15, world.getBiomeAt(event.x).splash);
+                  cameraRef.current.shake = 5;
+                  if (event.entryAngle < 10) {
+                      createFloatingText(event.x, event.y - 40, "CLEAN SKIP", '#7dd3fc', 18);
+                  }
+                  soundManager.playWaterSkip(soundCue(event.x, { intensity: getImpactIntensity(event.impactVelocity, FULL_SPLASH_SPEED) }));
+                  break;
+
+              case 'float':
+                  if (Math.random() > 0.8) {
+                      createParticles(event.x, event.y, 1, '#fff');
+                  }
+                  break;
+
+              case 'sink':
+                  if (event.targetY !== undefined) {
+                      createParticles(event.x, event.targetY, 20, '#fff');
+                      cameraRef.current.shake = 10;
+                  } else {
+                      createParticles(event.x, event.y, 20, world.getBiomeAt(event.x).splash);
+                  }
+                  soundManager.playGameOver(soundCue(event.x));
+                  break;
+          }
       }
+  };
+
+  // Game Loop
+  const update = useCallback((now: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
-      // Cleanup old surface numbers
-      if (surfaceRef.current.length > 50) {
-        surfaceRef.current.shift();
+    // Real time since the last frame, clamped so a background tab doesn't fast-forward the run
+    const dt = lastFrameTimeRef.current ? Math.min((now - lastFrameTimeRef.current) / 1000, MAX_FRAME_TIME) : 0;
+    lastFrameTimeRef.current = now;
+
+    // Keyboard and gamepad (the mouse and touch have their own handlers)
+    const actions = inputController.poll(gameState, dt);
+    if (actions.launch && worldRef.current.launch(actions.launch.dx, actions.launch.dy)) setShowTutorial(false);
+    if (actions.dive) worldRef.current.dive();
+    if (gameState === 'GAME_OVER') resultsInputRef.current(actions);
+
+    // --- PHYSICS (fixed steps) ---
+    const replay = replayRef.current;
+    const world = replay ? replay.world : worldRef.current;
+    // The editor never steps, so the level stays as laid out
+    if (gameState !== 'EDITOR') {
+        accumulatorRef.current += replay ? (replay.paused ? 0 : dt * replay.speed) : dt;
+    }
+    let hadEvents = false;
+    accumulatorRef.current = runFixedSteps(accumulatorRef.current, () => {
+      const prev = prevPlayerRef.current;
+      prev.x = world.player.x;
+      prev.y = world.player.y;
+      prev.rotation = world.player.rotation;
+      prev.time = world.time;
+
+      const events = replay ? replay.step() : world.step();
+      handlePhysicsEvents(events, world, !replay);
+      if (events.length > 0) hadEvents = true;
+
+      // The ghost waits on the plank until the live stone's first launch, then runs in lockstep
+      const ghost = ghostRef.current;
+      if (ghost && !replay && world.inputs.length > 0) {
+        prevGhostRef.current.x = ghost.world.player.x;
+        prevGhostRef.current.y = ghost.world.player.y;
+        ghost.step();
       }
 
-      // Check Collisions
-      if (gameState === 'FLYING') {
-        const surfaceY = CANVAS_HEIGHT - SURFACE_Y_OFFSET;
-        let hitTarget = false;
-
-        // Check Target Collisions
-        for (const num of surfaceRef.current) {
-            if (num.sunk) continue;
-            // Optimization: only check nearby
-            if (num.x < p.x - 100 || num.x > p.x + 100) continue;
-
-            // Calculate target position (including bobbing and movement)
-            let numY = surfaceY + Math.sin(timeRef.current + num.x) * 3;
-            if (num.isMoving) {
-                numY += Math.sin(timeRef.current * 2 + num.x) * (num.moveRange || 50);
-            }
-            
-            // Ghost Logic (Skip collision if invisible)
-            if (num.type === 'GHOST') {
-                const ghostOpacity = 0.5 + Math.sin(timeRef.current * 3 + num.x) * 0.4;
-                if (ghostOpacity < 0.3) continue;
-            }
-            
-            const dx = p.x - num.x;
-            const dy = p.y - numY;
-            const dist = Math.sqrt(dx*dx + dy*dy);
-            const minDist = p.radius + num.radius;
-
-            if (dist < minDist) {
-                hitTarget = true;
-                
-                // Collision Logic
-                const impactVelocity = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-                const impactForce = impactVelocity * playerStatsRef.current.weight * playerStatsRef.current.value;
-                const resistance = num.value * num.weight;
-                
-                // Smash Mechanic: If force is much higher than resistance, we crush it!
-                const isSmash = impactForce > resistance * 3;
-
-                if (impactForce > resistance || num.type === 'COIN') {
-                    // SKIP!
-                    
-                    // Multi-Hit Logic
-                    if (num.type === 'MULTI_HIT' && !isSmash && (num.hitsRequired || 0) > 1) {
-                        num.hitsRequired = (num.hitsRequired || 1) - 1;
-                        
-                        // Bounce off
-                        p.vy = -Math.abs(p.vy) * playerStatsRef.current.bounciness;
-                        p.vy -= 2;
-                        const overlap = minDist - dist;
-                        p.y -= overlap;
-                        
-                        // Visuals for hit
-                        createParticles(p.x, numY, 5, num.color);
-                        createFloatingText(p.x, p.y - 30, "HIT!", '#fff', 20);
-                        soundManager.playTargetHit('block');
-                        
-                        break; // Stop processing this target for this frame
-                    }
-
-                    if (isSmash && num.type !== 'COIN') {
-                         // SMASH THROUGH!
-                         // Don't bounce fully, just lose some speed but keep going
-                         p.vx *= 0.98; 
-                         p.vy *= 0.9; 
-                         createParticles(p.x, numY, 40, '#fff'); // Big explosion
-                         createParticles(p.x, numY, 20, num.color);
-                         cameraRef.current.shake = 40;
-                         // No position correction (tunnel through)
-                         
-                         // Bonus Score for Smash
-                         setStats(prev => ({
-                            ...prev,
-                            score: prev.score + 500
-                         }));
-                    } else {
-                        // Bounce off the target
-                        // Simple bounce: invert Y and add some lift
-                        p.vy = -Math.abs(p.vy) * playerStatsRef.current.bounciness;
-                        p.vy -= 2; // Extra pop
-                        
-                        // Prevent sinking into the ball
-                        const overlap = minDist - dist;
-                        p.y -= overlap; // Push out
-
-                        // Friction
-                        // Reduced friction to keep momentum (was max(0.5, ...))
-                        const friction = Math.max(0.8, 1 - (resistance / (impactForce * 5)));
-                        p.vx *= friction;
-                        p.vr = p.vx * 0.1;
-                    }
-
-                    // Effects
-                    if (!isSmash) {
-                        createParticles(p.x, numY, 10, num.color);
-                        cameraRef.current.shake = Math.min(impactForce / 5, 20);
-                        createFloatingText(p.x, p.y - 30, `+${num.value * 10}`, '#fbbf24', 20);
-                        soundManager.playTargetHit(num.type === 'BOOST' ? 'boost' : num.type === 'COIN' ? 'coin' : num.type === 'BLOCK' ? 'block' : 'normal');
-                    } else {
-                        createFloatingText(p.x, p.y - 50, "SMASH!", '#ef4444', 40);
-                        createFloatingText(p.x, p.y - 20, `+500`, '#fbbf24', 30);
-                        soundManager.playTargetHit('block'); // Heavy smash sound
-                    }
-
-                    // Stats
-                    setStats(prev => {
-                        const newCombo = prev.combo + 1;
-                        const comboMultiplier = 1 + (newCombo * 0.1);
-                        
-                        // Combo Text
-                        if (newCombo > 1) {
-                             createFloatingText(p.x + 50, p.y - 50, `${newCombo}x COMBO`, '#818cf8', 24);
-                        }
-
-                        return {
-                            ...prev,
-                            skips: prev.skips + 1,
-                            combo: newCombo,
-                            score: Math.floor(prev.score + (num.value * 10 * comboMultiplier)),
-                            currency: prev.currency + (num.type === 'COIN' ? 10 : 1)
-                        };
-                    });
-
-                    // Special Types
-                    if (num.type === 'BOOST') {
-                        p.vx *= 1.5;
-                        p.vy -= 5; 
-                        createFloatingText(p.x, p.y - 80, "BOOST!", '#4ade80', 30);
-                    } else if (num.type === 'COIN') {
-                        createFloatingText(p.x, p.y - 40, "+$10", '#fbbf24', 24);
-                    }
-
-                    num.sunk = true;
-                } else {
-                    // SINK (Hit target but too weak)
-                    setGameState('SINKING');
-                    p.vx *= 0.1;
-                    p.vy = 2;
-                    createParticles(p.x, numY, 20, '#fff');
-                    cameraRef.current.shake = 10;
-                    setStats(prev => ({ ...prev, combo: 0 }));
-                    soundManager.playGameOver();
-                }
-                break; // Only hit one target per frame
-            }
-        }
+      if (world.status === 'FLYING' || world.status === 'SINKING') {
+        const p = world.player;
 
-        // Check Water Collision (Only if we didn't hit a target)
-        if (!hitTarget && p.y + p.radius >= surfaceY) {
-             // WATER SKIPPING LOGIC
-             // If we are moving fast enough, we can skip on the water itself!
-             const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-             const isMovingDown = p.vy > 0;
-             
-             // Lower threshold to 5 (was 10) to make it more forgiving
-             if (speed > 5 && isMovingDown) {
-                 // SKIP ON WATER
-                 p.y = surfaceY - p.radius;
-                 p.vy = -Math.abs(p.vy) * 0.6; // Bouncier water (was 0.5)
-                 p.vx *= 0.9; // Less friction (was 0.8)
-                 p.vr = p.vx * 0.2;
-                 
-                 createParticles(p.x, surfaceY, 15, '#3b82f6'); // Blue splash
-                 cameraRef.current.shake = 5;
-                 soundManager.playWaterSkip();
-                 
-                 // Reset combo on water hit (penalty)
-                 setStats(prev => ({ ...prev, combo: 0 }));
-             } else if (Math.abs(p.vy) < 4) {
-                 // SOFT LANDING (FLOAT)
-                 // If we hit the water gently, we float instead of sinking!
-                 p.y = surfaceY - p.radius;
-                 p.vy = 0;
-                 p.vx *= 0.85; // Water drag slows us down
-                 p.vr *= 0.8;
-
-                 // Visuals
-                 if (Math.random() > 0.8) {
-                    createParticles(p.x, surfaceY, 1, '#fff');
-                 }
-
-                 // If we stop moving, we can shoot again
-                 if (Math.abs(p.vx) < 0.5) {
-                     setGameState('AIMING');
-                     p.vx = 0;
-                     p.vr = 0;
-                 }
-             } else {
-                 // SINK (Too slow AND falling fast = Splash)
-                 setGameState('SINKING');
-                 p.vx *= 0.5;
-                 p.vy = 2;
-                 setStats(prev => ({ ...prev, combo: 0 }));
-                 soundManager.playGameOver();
-             }
+        // Speed Trail
+        const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+        if (speed > 20 && Math.random() > 0.5) {
+            const trail = getTrail(cosmetics.equipped.trail);
+            createParticles(p.x, p.y, trail.count, trail.colors[Math.floor(Math.random() * trail.colors.length)]);
         }
       }
+    });
 
-      // Sinking Logic
-      if (gameState === 'SINKING') {
-          p.vy += 0.1; // Slow gravity underwater
-          p.vx *= 0.9;
-          if (p.y > CANVAS_HEIGHT + 100 || Math.abs(p.vx) < 0.1) {
-              setGameState('GAME_OVER');
-          }
-      }
+    if (replay) {
+        if (replay.finished) replay.paused = true;
+        setReplayView({ paused: replay.paused, speed: replay.speed, tick: world.tick, length: replay.length, startTick: replay.startTick });
+    }
 
-      // Update Stats
-      if (gameState === 'FLYING') {
-          setStats(prev => ({ ...prev, distance: Math.floor(p.x / 10) }));
-          // Live Debug
-          setLiveDebug(`Pos: ${Math.round(p.x)},${Math.round(p.y)} Vel: ${p.vx.toFixed(2)},${p.vy.toFixed(2)} G: ${gameState} W: ${playerStatsRef.current.weight}`);
-      }
+    // The music follows whichever stone is on screen
+    soundManager.setMusicState({
+        combo: world.combo,
+        speed: world.status === 'FLYING' ? Math.sqrt(world.player.vx ** 2 + world.player.vy ** 2) : 0,
+        altitude: SURFACE_Y - world.player.y - world.player.radius,
+    });
+
+    // Update Stats
+    if (world.status === 'FLYING' || hadEvents) {
+        setStats(prev => ({ ...prev, distance: world.distance, skips: world.skips, score: world.score, combo: world.combo }));
+    }
+    if (ghostRef.current && !replay && world.inputs.length > 0) {
+        setGhostDelta(world.distance - ghostRef.current.world.distance);
     }
+    if (world.status === 'FLYING') {
+        const p = world.player;
+        // Live Debug
+        setLiveDebug(`Pos: ${Math.round(p.x)},${Math.round(p.y)} Vel: ${p.vx.toFixed(2)},${p.vy.toFixed(2)} G: ${world.status} W: ${world.stats.weight}`);
+    }
+
+    // Interpolate between the last two steps so motion stays smooth at any refresh rate
+    const alpha = getStepAlpha(accumulatorRef.current);
+    const prev = prevPlayerRef.current;
+    const p = {
+        ...world.player,
+        x: lerp(prev.x, world.player.x, alpha),
+        y: lerp(prev.y, world.player.y, alpha),
+        rotation: lerp(prev.rotation, world.player.rotation, alpha),
+    };
+    const time = lerp(prev.time, world.time, alpha);
 
     // --- CAMERA & SHAKE (Always Active) ---
-    // Camera Follow X
-    const targetCamX = playerRef.current.x - 200;
-    cameraRef.current.x += (targetCamX - cameraRef.current.x) * 0.1;
-    if (cameraRef.current.x < 0) cameraRef.current.x = 0;
+    // Camera Follow X (the editor pans by scrolling instead)
+    if (gameState !== 'EDITOR') {
+        const targetCamX = p.x - 200;
+        cameraRef.current.x += (targetCamX - cameraRef.current.x) * (1 - Math.exp(-6 * dt));
+        if (cameraRef.current.x < 0) cameraRef.current.x = 0;
+    }
 
     // Camera Follow Y
-    const screenY = playerRef.current.y - cameraRef.current.y;
+    const screenY = p.y - cameraRef.current.y;
     const topMargin = CANVAS_HEIGHT * 0.3;
     
     if (screenY < topMargin) {
-        cameraRef.current.y += (screenY - topMargin) * 0.2;
+        cameraRef.current.y += (screenY - topMargin) * (1 - Math.exp(-13 * dt));
     } else if (screenY > CANVAS_HEIGHT * 0.6 && cameraRef.current.y < 0) {
-        cameraRef.current.y += (screenY - CANVAS_HEIGHT * 0.6) * 0.1;
+        cameraRef.current.y += (screenY - CANVAS_HEIGHT * 0.6) * (1 - Math.exp(-6 * dt));
         if (cameraRef.current.y > 0) cameraRef.current.y = 0;
     }
 
     // Shake Decay
     if (cameraRef.current.shake > 0) {
-        cameraRef.current.shake *= 0.9;
+        cameraRef.current.shake *= Math.exp(-6 * dt);
         if (cameraRef.current.shake < 0.5) cameraRef.current.shake = 0;
     }
 
     // --- PARTICLES ---
     particlesRef.current.forEach(part => {
-        part.x += part.vx;
-        part.y += part.vy;
-        part.vy += 0.2; // Gravity
-        part.life -= 0.02;
+        part.x += part.vx * dt;
+        part.y += part.vy * dt;
+        part.vy += PARTICLE_GRAVITY * dt;
+        part.life -= PARTICLE_FADE * dt;
     });
     particlesRef.current = particlesRef.current.filter(p => p.life > 0);
 
     // --- FLOATING TEXT ---
     floatingTextsRef.current.forEach(ft => {
-        ft.y += ft.vy;
-        ft.vy *= 0.95; // Drag
-        ft.life -= 0.015;
+        ft.y += ft.vy * dt;
+        ft.vy *= Math.exp(-3 * dt); // Drag
+        ft.life -= FLOATING_TEXT_FADE * dt;
     });
     floatingTextsRef.current = floatingTextsRef.current.filter(ft => ft.life > 0);
 
 
     // --- RENDER ---
+    // Biome palette around the stone, blended across biome borders (a level keeps its own)
+    const palette = world.level ? world.biome.palette : getBiomePalette(p.x);
+
     // Clear Canvas
-    ctx.fillStyle = '#0f172a'; // Slate-900 (Base Sky)
+    ctx.fillStyle = rgba(palette.sky); // Base Sky
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     // Dynamic Background (Parallax)
@@ -519,26 +739,31 @@ export default function GameCanvas() {
         const x = (i * 137) % CANVAS_WIDTH;
         const y = (i * 73) % (CANVAS_HEIGHT/2);
         const size = (i % 3) === 0 ? 2 : 1;
-        ctx.globalAlpha = 0.3 + Math.sin(timeRef.current + i)*0.2;
+        ctx.globalAlpha = (0.3 + Math.sin(time + i)*0.2) * palette.stars;
         ctx.beginPath();
         ctx.arc(x, y, size, 0, Math.PI*2);
         ctx.fill();
     }
     ctx.restore();
 
-    // Distant Mountains
-    ctx.save();
-    ctx.translate(-camX * 0.2, 100); // Slow parallax
-    ctx.fillStyle = '#1e293b'; // Slate-800
-    ctx.beginPath();
-    ctx.moveTo(-100, CANVAS_HEIGHT);
-    for(let i=0; i<=CANVAS_WIDTH+200; i+=100) {
-        const h = 100 + Math.sin(i * 0.01) * 50;
-        ctx.lineTo(i, CANVAS_HEIGHT - h);
-    }
-    ctx.lineTo(CANVAS_WIDTH+200, CANVAS_HEIGHT);
-    ctx.fill();
-    ctx.restore();
+    // Distant Ridges (far then near), scrolled so they tile along the whole lake
+    palette.layers.forEach(layer => {
+        const offset = camX * layer.parallax;
+        const step = 50;
+        const startX = Math.floor(offset / step) * step - step;
+        ctx.save();
+        ctx.translate(-offset, 100);
+        ctx.fillStyle = rgba(layer.color);
+        ctx.beginPath();
+        ctx.moveTo(startX, CANVAS_HEIGHT);
+        for(let i=startX; i<=offset+CANVAS_WIDTH+step; i+=step) {
+            const h = layer.height + Math.sin(i * layer.frequency) * layer.amplitude;
+            ctx.lineTo(i, CANVAS_HEIGHT - h);
+        }
+        ctx.lineTo(offset+CANVAS_WIDTH+step, CANVAS_HEIGHT);
+        ctx.fill();
+        ctx.restore();
+    });
 
     ctx.save();
     // Apply Shake and Camera
@@ -553,13 +778,14 @@ export default function GameCanvas() {
 
     // Water Surface (Dynamic Waves)
     const surfaceY = CANVAS_HEIGHT - SURFACE_Y_OFFSET;
+    const waveScale = getWaveScale(world.weather);
     
     // Back Wave (Darker)
-    ctx.fillStyle = '#1e3a8a'; // Blue-900
+    ctx.fillStyle = rgba(palette.backWave);
     ctx.beginPath();
     ctx.moveTo(cameraRef.current.x - 100, CANVAS_HEIGHT + 500);
     for(let x = cameraRef.current.x - 100; x <= cameraRef.current.x + CANVAS_WIDTH + 100; x+=50) {
-         const waveH = Math.sin((x) * 0.01 + timeRef.current) * 10;
+         const waveH = Math.sin((x) * 0.01 + time) * 10 * waveScale;
          ctx.lineTo(x, surfaceY + 10 + waveH);
     }
     ctx.lineTo(cameraRef.current.x + CANVAS_WIDTH + 100, CANVAS_HEIGHT + 500);
@@ -567,41 +793,42 @@ export default function GameCanvas() {
 
     // Front Wave (Lighter)
     const grad = ctx.createLinearGradient(0, surfaceY, 0, CANVAS_HEIGHT + 500);
-    grad.addColorStop(0, 'rgba(59, 130, 246, 0.8)'); // Blue-500
-    grad.addColorStop(1, 'rgba(30, 58, 138, 0.9)'); // Blue-900
+    grad.addColorStop(0, rgba(palette.waveTop, 0.8));
+    grad.addColorStop(1, rgba(palette.waveBottom, 0.9));
     ctx.fillStyle = grad;
     
     ctx.beginPath();
     ctx.moveTo(cameraRef.current.x - 100, CANVAS_HEIGHT + 500);
     for(let x = cameraRef.current.x - 100; x <= cameraRef.current.x + CANVAS_WIDTH + 100; x+=30) {
-         const waveH = Math.sin((x) * 0.02 + timeRef.current * 1.5) * 5;
+         const waveH = Math.sin((x) * 0.02 + time * 1.5) * 5 * waveScale;
          ctx.lineTo(x, surfaceY + waveH);
     }
     ctx.lineTo(cameraRef.current.x + CANVAS_WIDTH + 100, CANVAS_HEIGHT + 500);
     ctx.fill();
     
     // Top Line
-    ctx.strokeStyle = '#60a5fa'; // Blue-400
+    ctx.strokeStyle = rgba(palette.waveLine);
     ctx.lineWidth = 2;
     ctx.beginPath();
     for(let x = cameraRef.current.x - 100; x <= cameraRef.current.x + CANVAS_WIDTH + 100; x+=30) {
-         const waveH = Math.sin((x) * 0.02 + timeRef.current * 1.5) * 5;
+         const waveH = Math.sin((x) * 0.02 + time * 1.5) * 5 * waveScale;
          if (x === cameraRef.current.x - 100) ctx.moveTo(x, surfaceY + waveH);
          else ctx.lineTo(x, surfaceY + waveH);
     }
     ctx.stroke();
 
-    // Draw Start Plank
-    const plankX = 100;
-    const plankY = CANVAS_HEIGHT - SURFACE_Y_OFFSET;
+    // Draw Start Plank (under the stone's start, which levels can move)
+    const plankX = world.start.x;
+    const plankY = world.start.y + (surfaceY - START_Y);
     if (cameraRef.current.x < plankX + 200) {
         ctx.save();
         // ctx.translate(-cameraRef.current.x + shakeX, -camY + shakeY); // Already translated
         
-        // Plank Legs
+        // Plank Legs (down into the water however high the plank sits)
+        const legHeight = surfaceY - plankY + 100;
         ctx.fillStyle = '#78350f'; // Amber-900
-        ctx.fillRect(plankX - 50, plankY, 10, 100);
-        ctx.fillRect(plankX + 50, plankY, 10, 100);
+        ctx.fillRect(plankX - 50, plankY, 10, legHeight);
+        ctx.fillRect(plankX + 50, plankY, 10, legHeight);
         
         // Plank Top
         ctx.fillStyle = '#92400e'; // Amber-700
@@ -614,27 +841,45 @@ export default function GameCanvas() {
         ctx.restore();
     }
 
+    // Level Finish Line
+    if (world.level) {
+        const goalX = world.level.goal * 10;
+        if (goalX > cameraRef.current.x - 100 && goalX < cameraRef.current.x + CANVAS_WIDTH + 100) {
+            ctx.save();
+            ctx.fillStyle = '#e2e8f0'; // Slate-200
+            ctx.fillRect(goalX - 2, surfaceY - 220, 4, 240);
+            // Checkered flag
+            const square = 10;
+            for (let row = 0; row < 4; row++) {
+                for (let col = 0; col < 6; col++) {
+                    ctx.fillStyle = (row + col) % 2 === 0 ? '#fff' : '#0f172a';
+                    ctx.fillRect(goalX + 2 + col * square, surfaceY - 220 + row * square, square, square);
+                }
+            }
+            ctx.fillStyle = '#fff';
+            ctx.font = 'bold 12px "Inter"';
+            ctx.textAlign = 'center';
+            ctx.fillText(`${world.level.goal}m`, goalX, surfaceY - 230);
+            ctx.restore();
+        }
+    }
+
+    // Bobbing and moving effect
+    const getDrawY = (num: SurfaceNumber) => num.sunk ? surfaceY + 40 : surfaceY + getTargetOffsetY(num, time, world.weather);
+
+    // Anything a target draws beyond itself (portal exits, magnet fields) may reach past the screen edge
+    world.surface.forEach(num => TARGET_TYPES[num.type].drawUnder?.(ctx, num, getDrawY(num), time));
+
     // Surface Numbers
-    surfaceRef.current.forEach(num => {
+    world.surface.forEach(num => {
         if (num.x < cameraRef.current.x - 100 || num.x > cameraRef.current.x + CANVAS_WIDTH + 100) return;
+        const behavior = TARGET_TYPES[num.type];
         
         ctx.beginPath();
-        // Bobbing effect
-        const bobY = Math.sin(timeRef.current + num.x) * 3;
-        let drawY = num.sunk ? surfaceY + 40 : surfaceY + bobY; 
-        
-        // Moving effect
-        if (num.isMoving && !num.sunk) {
-            drawY += Math.sin(timeRef.current * 2 + num.x) * (num.moveRange || 50);
-        }
+        const drawY = getDrawY(num);
 
-        // Ghost effect
-        if (num.type === 'GHOST' && !num.sunk) {
-            const ghostOpacity = 0.5 + Math.sin(timeRef.current * 3 + num.x) * 0.4;
-            ctx.globalAlpha = ghostOpacity;
-        } else {
-            ctx.globalAlpha = 1;
-        }
+        // Fading targets (ghosts)
+        ctx.globalAlpha = behavior.opacity && !num.sunk ? behavior.opacity(num, time) : 1;
         
         ctx.arc(num.x, drawY, num.radius, 0, Math.PI * 2);
         ctx.fillStyle = num.sunk ? '#475569' : num.color;
@@ -650,19 +895,7 @@ export default function GameCanvas() {
             ctx.textBaseline = 'middle';
             ctx.fillText(num.value.toString(), num.x, drawY);
 
-            // Multi-Hit Indicator
-            if (num.type === 'MULTI_HIT' && (num.hitsRequired || 0) > 1) {
-                ctx.fillStyle = '#fff';
-                ctx.font = 'bold 10px "Inter"';
-                ctx.fillText(`${num.hitsRequired} HP`, num.x, drawY + 15);
-                
-                // Draw health ring
-                ctx.beginPath();
-                ctx.arc(num.x, drawY, num.radius - 2, 0, Math.PI * 2);
-                ctx.strokeStyle = 'rgba(255,255,255,0.5)';
-                ctx.lineWidth = 2;
-                ctx.stroke();
-            }
+            behavior.draw?.(ctx, num, drawY, time);
 
             // DEBUG: Draw Hitbox
             ctx.strokeStyle = 'rgba(255, 0, 0, 0.3)';
@@ -673,19 +906,85 @@ export default function GameCanvas() {
         }
     });
 
+    // Power-up pickups
+    world.pickups.forEach(pickup => {
+        if (pickup.collected) return;
+        if (pickup.x < cameraRef.current.x - 100 || pickup.x > cameraRef.current.x + CANVAS_WIDTH + 100) return;
+        const def = POWER_UPS[pickup.type];
+        const y = pickup.y + Math.sin(time * 2 + pickup.x) * 4; // Bob for show; physics uses the fixed height
+        ctx.save();
+        ctx.globalAlpha = 1;
+        ctx.shadowColor = def.color;
+        ctx.shadowBlur = 20;
+        ctx.beginPath();
+        ctx.arc(pickup.x, y, POWER_UP_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.8)';
+        ctx.fill();
+        ctx.strokeStyle = def.color;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+        ctx.shadowBlur = 0;
+        ctx.font = '20px "Inter"';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(def.icon, pickup.x, y + 1);
+        ctx.restore();
+    });
+
+    // Editor Selection
+    const selectedNum = gameState === 'EDITOR' && editor.selected !== null ? world.surface[editor.selected] : undefined;
+    if (selectedNum) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(selectedNum.x, surfaceY + getTargetOffsetY(selectedNum, time, world.weather), selectedNum.radius + 8, 0, Math.PI * 2);
+        ctx.strokeStyle = '#fbbf24'; // Amber-400
+        ctx.lineWidth = 3;
+        ctx.setLineDash([6, 4]);
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // Ghost Stone
+    const ghost = ghostRef.current;
+    if (ghost && !replay) {
+        const g = ghost.world.player;
+        const gx = lerp(prevGhostRef.current.x, g.x, alpha);
+        const gy = lerp(prevGhostRef.current.y, g.y, alpha);
+        ctx.save();
+        ctx.globalAlpha = 0.35;
+        ctx.beginPath();
+        ctx.ellipse(gx, gy, g.radius, g.radius * ghost.world.stone.squash, 0, 0, Math.PI * 2);
+        ctx.fillStyle = '#a5b4fc'; // Indigo-300
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([4, 4]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 10px "Inter"';
+        ctx.textAlign = 'center';
+        ctx.fillText("BEST", gx, gy - g.radius - 8);
+        ctx.restore();
+    }
+
     // Player
-    const p = playerRef.current;
     ctx.save();
     ctx.translate(p.x, p.y);
     ctx.rotate(p.rotation);
     
-    ctx.beginPath();
-    ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
-    ctx.fillStyle = '#fff';
-    ctx.fill();
-    ctx.strokeStyle = '#6366f1'; // Indigo-500
-    ctx.lineWidth = 4;
-    ctx.stroke();
+    drawStone(ctx, getSkin(cosmetics.equipped.skin), p.radius, world.stats.value, world.stone.squash);
+
+    // One glowing ring per active power-up
+    world.effects.forEach((effect, i) => {
+        ctx.beginPath();
+        ctx.arc(0, 0, p.radius + 6 + i * 5, 0, Math.PI * 2);
+        ctx.strokeStyle = POWER_UPS[effect.type].color;
+        ctx.globalAlpha = effect.remaining * FIXED_DT < 1 ? 0.3 + 0.5 * Math.abs(Math.sin(time * 6)) : 0.8; // Flickers in its last second
+        ctx.lineWidth = 3;
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+    });
 
     // DEBUG: Player Hitbox
     ctx.strokeStyle = 'rgba(0, 255, 0, 0.5)';
@@ -702,12 +1001,6 @@ export default function GameCanvas() {
         ctx.fillText("YOU", 0, -35);
     }
 
-    ctx.fillStyle = '#6366f1';
-    ctx.font = 'bold 20px "JetBrains Mono"';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(playerStatsRef.current.value.toString(), 0, 0);
-    
     ctx.restore();
 
     // Particles
@@ -740,9 +1033,10 @@ export default function GameCanvas() {
     });
 
     // Aim Line (Arrow)
-    if (gameState === 'AIMING' && inputRef.current.isDragging) {
-        const dx = inputRef.current.startX - inputRef.current.currentX;
-        const dy = inputRef.current.startY - inputRef.current.currentY;
+    const keyAim = inputRef.current.isDragging ? null : inputController.getAimDrag();
+    if (gameState === 'AIMING' && (inputRef.current.isDragging || keyAim)) {
+        const dx = keyAim ? keyAim.dx : inputRef.current.startX - inputRef.current.currentX;
+        const dy = keyAim ? keyAim.dy : inputRef.current.startY - inputRef.current.currentY;
         
         // Check for wrong direction
         if (dx < 0) {
@@ -780,29 +1074,9 @@ export default function GameCanvas() {
             ctx.stroke();
             ctx.setLineDash([]);
             
-            // Draw Trajectory
-            // Calculate predicted launch velocity
-            let pVx = dx * POWER_SCALE;
-            let pVy = dy * POWER_SCALE;
-            
-            // Force a minimum upward angle for horizontal-ish drags
-            // REMOVED: Let the user shoot straight/down if they want. Physics will handle it.
-            // if (Math.abs(dy) < dx * 0.2) {
-            //     pVy = -Math.abs(dx * 0.1); 
-            // }
-
-            const pSpeed = Math.sqrt(pVx*pVx + pVy*pVy);
-            const currentMaxPower = playerStatsRef.current.maxPower;
-            if (pSpeed > currentMaxPower) {
-                const s = currentMaxPower / pSpeed;
-                pVx *= s;
-                pVy *= s;
-            }
-            if (isPerfect) {
-                pVx *= 1.2;
-                pVy *= 1.2;
-            }
-            drawTrajectory(ctx, p.x, p.y, pVx, pVy);
+            // Draw Trajectory, from the velocity the world would launch with (the Daily loadout in a daily)
+            const launch = computeLaunchVelocity(dx, dy, worldRef.current.stats.maxPower);
+            drawTrajectory(ctx, p.x, p.y, launch.vx, launch.vy);
             
             // Arrow Head
             const angle = Math.atan2(aimY - p.y, aimX - p.x);
@@ -841,6 +1115,31 @@ export default function GameCanvas() {
 
     ctx.restore();
 
+    // Weather Overlays (screen space)
+    const { rain, fog, wind } = world.weather;
+    if (rain > 0) {
+        // Stateless streaks that scroll with real time, slanted by the wind
+        const slant = wind * 150;
+        ctx.strokeStyle = `rgba(191, 219, 254, ${0.2 + rain * 0.25})`; // Blue-200
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = 0; i < Math.round(rain * 120); i++) {
+            const x = (i * 977 + camX * 0.5) % (CANVAS_WIDTH + 100) - 50;
+            const y = (i * 613 + now * 0.9) % CANVAS_HEIGHT;
+            ctx.moveTo(x, y);
+            ctx.lineTo(x + slant, y + 14);
+        }
+        ctx.stroke();
+    }
+    if (fog > 0) {
+        // Hide what's ahead, keep the stone itself clear
+        const fogGrad = ctx.createLinearGradient(CANVAS_WIDTH * 0.3, 0, CANVAS_WIDTH, 0);
+        fogGrad.addColorStop(0, 'rgba(148, 163, 184, 0)'); // Slate-400
+        fogGrad.addColorStop(1, `rgba(148, 163, 184, ${fog * 0.9})`);
+        ctx.fillStyle = fogGrad;
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    }
+
     // Off-screen Indicator
     const pScreenY = p.y - cameraRef.current.y;
     if (pScreenY < -50) {
@@ -860,7 +1159,7 @@ export default function GameCanvas() {
     }
 
     requestRef.current = requestAnimationFrame(update);
-  }, [gameState]);
+  }, [gameState, cosmetics, editor.selected]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(update);
@@ -880,10 +1179,15 @@ export default function GameCanvas() {
       let vX = vx;
       let vY = vy;
       
-      // Simulate 30 frames
+      // Simulate 30 frames (spin barely decays this early, so lift stays at the launch spin).
+      // Gravity comes from the world so an active low-gravity power-up bends the preview too
+      const world = worldRef.current;
+      const { stats, stone, weather } = world;
+      const lift = getSpinLift(stats, stone, stats.spin);
       for(let i=0; i<30; i++) {
-          vY += GRAVITY * playerStatsRef.current.weight;
-          vX *= AIR_RESISTANCE * playerStatsRef.current.aerodynamics;
+          vY += world.getGravity(vY) - lift;
+          if (Math.abs(vX) + Math.abs(vY) > 2) vX += weather.wind / (stats.weight || 1.0); // Same gate as the physics
+          vX *= AIR_RESISTANCE * stats.aerodynamics;
           vY *= AIR_RESISTANCE;
           x += vX;
           y += vY;
@@ -944,57 +1248,24 @@ export default function GameCanvas() {
         return;
     }
 
-    if (gameState === 'AIMING') {
-        setShowTutorial(false);
-    }
+    if (!worldRef.current.launch(dx, dy)) return;
+    setShowTutorial(false);
 
-    const maxDist = 200;
-    const isPerfect = dist >= maxDist * 0.95;
-    const maxPower = playerStatsRef.current.maxPower;
-    
-    // Calculate Velocity
-    let vx = dx * POWER_SCALE;
-    let vy = dy * POWER_SCALE;
-    
-    // Force a minimum upward angle for horizontal-ish drags
-    if (Math.abs(dy) < dx * 0.2) {
-        vy = -Math.abs(dx * 0.1); 
-    }
-    
-    const speed = Math.sqrt(vx*vx + vy*vy);
-    if (speed > maxPower) {
-        const scale = maxPower / speed;
-        vx *= scale;
-        vy *= scale;
-    }
-    
-    if (isPerfect) {
-        vx *= 1.2;
-        vy *= 1.2;
-        createParticles(playerRef.current.x, playerRef.current.y, 20, '#fbbf24');
-    }
-    
-    playerRef.current.vx = vx;
-    playerRef.current.vy = vy;
-    
     // Debug
-    setDebugInfo(`Launch: dx=${dx.toFixed(0)}, dy=${dy.toFixed(0)}, vx=${vx.toFixed(1)}, vy=${vy.toFixed(1)}`);
-    
-    if (playerRef.current.vx < 2) playerRef.current.vx = 2;
-    
-    setGameState('FLYING');
-    soundManager.playLaunch();
+    const p = worldRef.current.player;
+    setDebugInfo(`Launch: dx=${dx.toFixed(0)}, dy=${dy.toFixed(0)}, vx=${p.vx.toFixed(1)}, vy=${p.vy.toFixed(1)}`);
   }, []);
 
   // Input Handlers
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
+    if (gameState === 'EDITOR') {
+        handleEditorPointerDown(e);
+        return;
+    }
+
     if (gameState === 'FLYING') {
         // DIVE MECHANIC
-        playerRef.current.vy += 15; // Smash down
-        createParticles(playerRef.current.x, playerRef.current.y, 10, '#fff');
-        setDiveEffect({ x: playerRef.current.x, y: playerRef.current.y, id: Date.now() });
-        soundManager.playDive();
-        setTimeout(() => setDiveEffect(null), 500);
+        worldRef.current.dive();
         return;
     }
 
@@ -1031,6 +1302,11 @@ export default function GameCanvas() {
     window.addEventListener('touchend', handleWindowMouseUp);
   };
 
+  useEffect(() => {
+      inputController.attach();
+      return () => inputController.detach();
+  }, []);
+
   // Cleanup listeners on unmount
   useEffect(() => {
       return () => {
@@ -1041,14 +1317,195 @@ export default function GameCanvas() {
       };
   }, [handleWindowMouseMove, handleWindowTouchMove, handleWindowMouseUp]);
 
+  // --- Level Editor ---
+
+  // Client coordinates to world space (the editor camera only pans along x)
+  const toWorldPoint = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: (clientX - rect.left) * (canvas.width / rect.width) + cameraRef.current.x,
+        y: (clientY - rect.top) * (canvas.height / rect.height) + Math.min(0, cameraRef.current.y),
+    };
+  };
+
+  // Keeps targets in x order, following the selected one to its new index
+  const changeEditorLevel = (level: LevelDef) => {
+    setEditor(prev => {
+        const sorted = sortLevelTargets(level, prev.selected);
+        return { ...prev, level: sorted.level, selected: sorted.index };
+    });
+  };
+
+  const handleEditorDrag = useCallback((e: MouseEvent | TouchEvent) => {
+    const drag = editorDragRef.current;
+    if (!drag || !canvasRef.current) return;
+    if ('touches' in e) e.preventDefault();
+    const point = 'touches' in e ? e.touches[0] : e;
+    const x = Math.round(toWorldPoint(point.clientX, point.clientY).x - drag.offsetX);
+    setEditor(prev => ({
+        ...prev,
+        level: { ...prev.level, targets: prev.level.targets.map((t, i) => (i === drag.index ? { ...t, x } : t)) },
+    }));
+  }, []);
+
+  const handleEditorDragEnd = useCallback(() => {
+    if (!editorDragRef.current) return;
+    editorDragRef.current = null;
+    window.removeEventListener('mousemove', handleEditorDrag);
+    window.removeEventListener('mouseup', handleEditorDragEnd);
+    window.removeEventListener('touchmove', handleEditorDrag);
+    window.removeEventListener('touchend', handleEditorDragEnd);
+    // Sorted once the drag is over so the dragged target keeps its index meanwhile
+    setEditor(prev => {
+        const sorted = sortLevelTargets(prev.level, prev.selected);
+        return { ...prev, level: sorted.level, selected: sorted.index };
+    });
+  }, [handleEditorDrag]);
+
+  useEffect(() => {
+      return () => {
+        window.removeEventListener('mousemove', handleEditorDrag);
+        window.removeEventListener('mouseup', handleEditorDragEnd);
+        window.removeEventListener('touchmove', handleEditorDrag);
+        window.removeEventListener('touchend', handleEditorDragEnd);
+      };
+  }, [handleEditorDrag, handleEditorDragEnd]);
+
+  // Click a target to select and drag it; click the water to place the current tool
+  const handleEditorPointerDown = (e: React.MouseEvent | React.TouchEvent) => {
+    const point = 'touches' in e ? e.touches[0] : (e as React.MouseEvent);
+    const { x, y } = toWorldPoint(point.clientX, point.clientY);
+    const world = worldRef.current;
+
+    const index = world.surface.findIndex(num => {
+        const numY = SURFACE_Y + getTargetOffsetY(num, world.time, world.weather);
+        return Math.hypot(num.x - x, numY - y) <= num.radius;
+    });
+    if (index >= 0) {
+        editorDragRef.current = { index, offsetX: x - world.surface[index].x };
+        setEditor(prev => ({ ...prev, selected: index }));
+        window.addEventListener('mousemove', handleEditorDrag);
+        window.addEventListener('mouseup', handleEditorDragEnd);
+        window.addEventListener('touchmove', handleEditorDrag, { passive: false });
+        window.addEventListener('touchend', handleEditorDragEnd);
+        return;
+    }
+
+    if (Math.abs(y - SURFACE_Y) > 80 || x < world.start.x + 50) {
+        setEditor(prev => ({ ...prev, selected: null }));
+        return;
+    }
+    setEditor(prev => {
+        const target = { type: prev.tool, x: Math.round(x), value: TARGET_TYPES[prev.tool].fixedValue ?? 3 };
+        const level = { ...prev.level, targets: [...prev.level.targets, target] };
+        const sorted = sortLevelTargets(level, level.targets.length - 1);
+        return { ...prev, level: sorted.level, selected: sorted.index };
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (gameState !== 'EDITOR') return;
+    const lastX = Math.max(editor.level.goal * 10, ...editor.level.targets.map(t => t.x));
+    cameraRef.current.x = Math.max(0, Math.min(lastX, cameraRef.current.x + e.deltaY + e.deltaX));
+  };
+
+  // Delete removes the selected target (unless typing in the panel)
+  useEffect(() => {
+    if (gameState !== 'EDITOR') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+        if ((e.target as HTMLElement).closest('input, select, textarea')) return;
+        setEditor(prev => prev.selected === null ? prev : {
+            ...prev,
+            level: { ...prev.level, targets: prev.level.targets.filter((_, i) => i !== prev.selected) },
+            selected: null,
+        });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameState]);
+
+  // Show the level under edit on the lake, rebuilt after every change
+  useEffect(() => {
+    if (gameState !== 'EDITOR') return;
+    worldRef.current = new PhysicsWorld(worldRef.current.seed, playerStatsRef.current, stones.selected, editor.level);
+    snapInterpolation(worldRef.current);
+  }, [gameState, editor.level]);
+
+  const openEditor = (level?: LevelDef) => {
+    replayRef.current = null;
+    setReplayView(null);
+    ghostRef.current = null;
+    setGhostDelta(null);
+    if (level) setEditor(prev => ({ ...prev, level, selected: null }));
+    setEditorMessage(null);
+    cameraRef.current.x = 0;
+    cameraRef.current.y = 0;
+    cameraRef.current.shake = 0;
+    setGameState('EDITOR');
+  };
+
+  const exitEditor = () => {
+    worldRef.current = new PhysicsWorld(randomSeed(), playerStatsRef.current, stones.selected);
+    snapInterpolation(worldRef.current);
+    cameraRef.current.x = 0;
+    setGameState('MENU');
+  };
+
+  // Round-trips through the JSON format so a test play sees exactly what a saved file would
+  const checkEditorLevel = () => {
+    try {
+        return parseLevel(JSON.parse(serializeLevel(editor.level)));
+    } catch (err) {
+        console.error("Level check failed", err);
+        setEditorMessage({ text: (err as Error).message, error: true });
+        return null;
+    }
+  };
+
+  const testPlayLevel = () => {
+    const level = checkEditorLevel();
+    if (level) startLevel(level);
+  };
+
+  const saveLevelFile = () => {
+    const level = checkEditorLevel();
+    if (!level) return;
+    const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setEditorMessage({ text: `Saved ${level.id}.json` });
+  };
+
+  const loadLevelFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+        .then(text => {
+            const level = parseLevel(JSON.parse(text));
+            setEditor(prev => ({ ...prev, level, selected: null }));
+            setEditorMessage({ text: `Loaded ${level.name}` });
+        })
+        .catch(err => {
+            console.error("Level load failed", err);
+            setEditorMessage({ text: `Couldn't load level: ${err.message}`, error: true });
+        });
+  };
+
   const createParticles = (x: number, y: number, count: number, color: string) => {
       for(let i=0; i<count; i++) {
           particlesRef.current.push({
               id: Math.random().toString(),
               x,
               y,
-              vx: randomRange(-5, 5),
-              vy: randomRange(-5, -1),
+              vx: randomRange(-300, 300), // px per second
+              vy: randomRange(-300, -60),
               life: 1,
               color,
               size: randomRange(2, 5)
@@ -1056,21 +1513,142 @@ export default function GameCanvas() {
       }
   };
 
-  const buyUpgrade = (type: keyof PlayerStats, cost: number, increment: number) => {
-      if (stats.currency >= cost) {
-          setStats(prev => ({ ...prev, currency: prev.currency - cost }));
-          playerStatsRef.current = {
-              ...playerStatsRef.current,
-              [type]: playerStatsRef.current[type] + increment
-          };
-          // Visual update for weight
-          if (type === 'weight') {
-             playerRef.current.radius = 20 + (playerStatsRef.current.weight * 5);
-          }
-          forceUpdate(n => n + 1);
+  const buyUpgrade = (upgrade: UpgradeDef) => {
+      const cost = getUpgradeCost(upgrade, upgradeLevels[upgrade.id]);
+      if (cost === null || stats.currency < cost) {
+          soundManager.playUi('deny');
+          return;
+      }
+      soundManager.playUi('confirm');
+      const levels = { ...upgradeLevels, [upgrade.id]: upgradeLevels[upgrade.id] + 1 };
+      setStats(prev => ({ ...prev, currency: prev.currency - cost }));
+      setUpgradeLevels(levels);
+      equipStone(levels, stones.selected);
+  };
+
+  // Unlocks a stone type if needed, then selects it for the next run
+  const selectStone = (stone: StoneType) => {
+      const owned = stones.owned.includes(stone.id);
+      if (!owned && stats.currency < stone.unlockCost) {
+          soundManager.playUi('deny');
+          return;
+      }
+      soundManager.playUi(owned ? 'click' : 'confirm');
+      if (!owned) setStats(prev => ({ ...prev, currency: prev.currency - stone.unlockCost }));
+      setStones(prev => ({ owned: owned ? prev.owned : [...prev.owned, stone.id], selected: stone.id }));
+      equipStone(upgradeLevels, stone.id);
+  };
+
+  // Buys a cosmetic if needed, then equips it
+  const selectCosmetic = (kind: CosmeticKind, id: string, price: number) => {
+      const owned = cosmetics.owned.includes(id);
+      if (!owned && stats.currency < price) {
+          soundManager.playUi('deny');
+          return;
       }
+      soundManager.playUi(owned ? 'click' : 'confirm');
+      if (!owned) setStats(prev => ({ ...prev, currency: prev.currency - price }));
+      setCosmetics(prev => ({
+          owned: owned ? prev.owned : [...prev.owned, id],
+          equipped: { ...prev.equipped, [kind]: id },
+      }));
+  };
+
+  // Keep interpolation from sliding across a jump (new run, replay start, scrubbing)
+  const snapInterpolation = (world: PhysicsWorld) => {
+      prevPlayerRef.current = { x: world.player.x, y: world.player.y, rotation: world.player.rotation, time: world.time };
   };
 
+  // Replay Playback
+  const startReplay = (record: RunRecord) => {
+      if (gameState !== 'REPLAY') {
+          replayReturnRef.current = gameState;
+      }
+      const replay = new ReplayPlayer(record);
+      replayRef.current = replay;
+      snapInterpolation(replay.world);
+      cameraRef.current.x = 0;
+      cameraRef.current.y = 0;
+      cameraRef.current.shake = 0;
+      setGameState('REPLAY');
+  };
+
+  const exitReplay = () => {
+      replayRef.current = null;
+      setReplayView(null);
+      const world = worldRef.current;
+      snapInterpolation(world);
+      setStats(prev => ({ ...prev, distance: world.distance, skips: world.skips, score: world.score, combo: world.combo }));
+      setGameState(replayReturnRef.current);
+  };
+
+  const seekReplay = (tick: number) => {
+      const replay = replayRef.current;
+      if (!replay) return;
+      replay.seek(tick);
+      snapInterpolation(replay.world);
+  };
+
+  const exportReplay = (record: RunRecord) => {
+      const blob = new Blob([serializeReplay(record)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `skip-replay-${record.result.distance}m-${record.seed}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const importReplay = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      file.text()
+          .then(text => startReplay(parseReplay(text)))
+          .catch(err => {
+              console.error("Replay import failed", err);
+              alert(`Couldn't load replay: ${err.message}`);
+          });
+  };
+
+  const submitLastRun = () => {
+      const name = playerName.trim();
+      if (!lastRun || !name) return;
+      localStorage.setItem('skipball_player_name', name);
+      setSubmission({ status: 'sending' });
+      submitRun(name, lastRun)
+          .then(result => {
+              setSubmission({ status: 'done', message: `Rank #${result.ranks.score} by score, #${result.ranks.distance} by distance`, entryId: result.entry.id });
+              setLeaderboardKey(k => k + 1);
+          })
+          .catch(err => {
+              console.error("Run submit failed", err);
+              setSubmission({ status: 'error', message: err.message });
+          });
+  };
+
+  // Ghost race picker (menu and game over)
+  const ghostOptions: { target: GhostTarget | null; label: string }[] = [
+      { target: null, label: 'OFF' },
+      { target: 'highScore', label: 'BEST SCORE' },
+      { target: 'maxDistance', label: 'BEST DIST' },
+  ];
+  const ghostPicker = (
+      <div className="flex items-center justify-center gap-2 text-xs font-mono">
+          <span className="text-slate-500 uppercase tracking-widest mr-1">Race Ghost</span>
+          {ghostOptions.map(option => (
+              <button
+                  key={option.label}
+                  onClick={() => setGhostTarget(option.target)}
+                  disabled={option.target !== null && !bestRuns[option.target]}
+                  className={`px-2 py-1 rounded border transition-colors disabled:opacity-30 ${ghostTarget === option.target ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                  {option.label}
+              </button>
+          ))}
+      </div>
+  );
+
   return (
     <div className="relative w-full h-screen flex flex-col items-center justify-center bg-slate-900 overflow-hidden">
       
@@ -1078,17 +1656,10 @@ export default function GameCanvas() {
       <div className="absolute bottom-4 left-4 text-xs text-slate-500 font-mono pointer-events-none z-50">
           <div>{debugInfo}</div>
           <div className="text-indigo-400">{liveDebug}</div>
-          <div className="pointer-events-auto mt-2 flex gap-2">
-            <button onClick={() => initSurface()} className="bg-slate-700 px-2 py-1 rounded text-white">Reset Targets</button>
-            <button onClick={() => {
-                const p = playerRef.current;
-                surfaceRef.current.push(generateSurfaceNumber(p.x + 300, 1));
-            }} className="bg-slate-700 px-2 py-1 rounded text-white">Spawn Target</button>
-          </div>
       </div>
 
       {/* HUD */}
-      <div className="absolute top-4 left-4 flex gap-4 text-white font-mono z-10 pointer-events-none select-none">
+      <div className={`absolute top-4 left-4 flex gap-4 text-white font-mono z-10 pointer-events-none select-none ${gameState === 'EDITOR' ? 'hidden' : ''}`}>
           <div className="bg-slate-800/80 backdrop-blur p-2 rounded border border-slate-700">
               <div className="text-[10px] text-slate-400 tracking-wider">DISTANCE</div>
               <div className="text-xl font-bold">{stats.distance}m</div>
@@ -1107,10 +1678,52 @@ export default function GameCanvas() {
                 <div className="text-xl font-bold text-white">x{stats.combo}</div>
             </div>
           )}
+          {(replayRef.current?.world ?? worldRef.current).effects.map(effect => {
+            const def = POWER_UPS[effect.type];
+            return (
+              <div key={effect.type} className="bg-slate-800/80 backdrop-blur p-2 rounded border" style={{ borderColor: def.color }}>
+                  <div className="text-[10px] tracking-wider" style={{ color: def.color }}>{def.icon} {def.name.toUpperCase()}</div>
+                  <div className="text-xl font-bold">{(effect.remaining * FIXED_DT).toFixed(1)}s</div>
+                  <div className="h-1 mt-1 bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full" style={{ width: `${(effect.remaining / effect.duration) * 100}%`, background: def.color }} />
+                  </div>
+              </div>
+            );
+          })}
           <div className="bg-slate-800/80 backdrop-blur p-2 rounded border border-amber-500/50">
               <div className="text-[10px] text-amber-400 tracking-wider">CURRENCY</div>
               <div className="text-xl font-bold text-amber-300">${stats.currency}</div>
           </div>
+          {gameState !== 'MENU' && (
+            <div className="bg-slate-800/80 backdrop-blur p-2 rounded border border-slate-700">
+                <div className="text-[10px] text-slate-400 tracking-wider">BIOME</div>
+                <div className="text-sm font-bold leading-7">{(replayRef.current?.world ?? worldRef.current).biome.name.toUpperCase()}</div>
+            </div>
+          )}
+          {gameState !== 'MENU' && (
+            <div className="bg-slate-800/80 backdrop-blur p-2 rounded border border-sky-500/40">
+                <div className="text-[10px] text-sky-300 tracking-wider">WEATHER</div>
+                <div className="text-sm font-bold leading-7">{describeWeather((replayRef.current?.world ?? worldRef.current).weather).join(' · ')}</div>
+            </div>
+          )}
+          {isDailyRun && gameState !== 'REPLAY' && gameState !== 'MENU' && (
+            <div className="bg-cyan-900/80 backdrop-blur p-2 rounded border border-cyan-500/50">
+                <div className="text-[10px] text-cyan-300 tracking-wider">MODE</div>
+                <div className="text-xl font-bold text-white">DAILY</div>
+            </div>
+          )}
+          {worldRef.current?.level && gameState !== 'REPLAY' && gameState !== 'MENU' && (
+            <div className="bg-amber-900/60 backdrop-blur p-2 rounded border border-amber-500/50">
+                <div className="text-[10px] text-amber-300 tracking-wider">LEVEL · {worldRef.current.level.name.toUpperCase()}</div>
+                <div className="text-xl font-bold text-white">{Math.min(stats.distance, worldRef.current.level.goal)}/{worldRef.current.level.goal}m</div>
+            </div>
+          )}
+          {ghostDelta !== null && gameState !== 'REPLAY' && gameState !== 'MENU' && (
+            <div className={`bg-slate-800/80 backdrop-blur p-2 rounded border ${ghostDelta >= 0 ? 'border-emerald-500/50' : 'border-red-500/50'}`}>
+                <div className="text-[10px] text-slate-400 tracking-wider">VS BEST</div>
+                <div className={`text-xl font-bold ${ghostDelta >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{ghostDelta >= 0 ? '+' : ''}{ghostDelta}m</div>
+            </div>
+          )}
       </div>
 
       {/* Speedometer / Danger Warning */}
@@ -1121,7 +1734,7 @@ export default function GameCanvas() {
                 <div 
                     className="h-full bg-gradient-to-r from-red-500 via-yellow-500 to-green-500 transition-all duration-100"
                     style={{ 
-                        width: `${Math.min(100, (Math.sqrt(playerRef.current.vx**2 + playerRef.current.vy**2) / 30) * 100)}%` 
+                        width: `${Math.min(100, (Math.sqrt(worldRef.current.player.vx**2 + worldRef.current.player.vy**2) / 30) * 100)}%` 
                     }}
                 />
                 {/* Threshold Marker */}
@@ -1131,7 +1744,7 @@ export default function GameCanvas() {
             {/* Text */}
             <div className="mt-2 font-mono font-bold text-sm text-white drop-shadow-md flex items-center gap-2">
                 <span>SPEED</span>
-                {Math.sqrt(playerRef.current.vx**2 + playerRef.current.vy**2) < 6 ? (
+                {Math.sqrt(worldRef.current.player.vx**2 + worldRef.current.player.vy**2) < 6 ? (
                     <span className="text-red-500 animate-pulse">⚠ SINK DANGER</span>
                 ) : (
                     <span className="text-green-400">GOOD</span>
@@ -1142,7 +1755,10 @@ export default function GameCanvas() {
 
       {/* Reset Button */}
       <button 
-        onClick={resetRun}
+        onClick={e => {
+            e.currentTarget.blur(); // Otherwise it keeps focus and takes the next Space press
+            resetRun();
+        }}
         className="absolute top-4 right-4 z-10 p-3 bg-slate-800/80 hover:bg-slate-700 text-white rounded-lg border border-slate-600 transition-colors shadow-lg"
         title="Reset Run"
       >
@@ -1158,6 +1774,7 @@ export default function GameCanvas() {
               <div className="text-white font-bold text-xl mb-2 drop-shadow-md bg-black/50 px-4 py-1 rounded text-center">
                   {stats.distance === 0 ? "PULL BACK TO LAUNCH" : "SHOOT AGAIN!"}
                   {stats.distance > 0 && <div className="text-xs font-normal text-emerald-300 mt-1">Safe Landing!</div>}
+                  <div className="text-[10px] font-normal text-slate-300 tracking-widest mt-1">OR ARROWS TO AIM · HOLD SPACE</div>
               </div>
               <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" className="animate-bounce drop-shadow-md">
                   <path d="M12 5v14M19 12l-7 7-7-7"/>
@@ -1180,6 +1797,74 @@ export default function GameCanvas() {
           </div>
       )}
 
+      {/* Replay Controls */}
+      {gameState === 'REPLAY' && replayView && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-20 w-[32rem] max-w-[90vw] bg-slate-900/90 backdrop-blur p-3 rounded-xl border border-indigo-500/30 shadow-2xl flex flex-col gap-2 text-white font-mono">
+            <div className="flex items-center justify-between text-[10px] tracking-wider text-slate-400">
+                <span className="text-indigo-400 font-bold">REPLAY</span>
+                <span>{((replayView.tick - replayView.startTick) * FIXED_DT).toFixed(1)}s / {((replayView.length - replayView.startTick) * FIXED_DT).toFixed(1)}s</span>
+            </div>
+            <input
+                type="range"
+                min={replayView.startTick}
+                max={replayView.length}
+                value={replayView.tick}
+                onChange={e => seekReplay(Number(e.target.value))}
+                className="w-full accent-indigo-500"
+            />
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => {
+                        const replay = replayRef.current;
+                        if (!replay) return;
+                        if (replay.finished) seekReplay(replay.startTick);
+                        replay.paused = !replay.paused;
+                    }}
+                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 rounded font-bold text-sm w-20"
+                >
+                    {replayView.paused ? 'PLAY' : 'PAUSE'}
+                </button>
+                {[0.5, 1, 2].map(speed => (
+                    <button
+                        key={speed}
+                        onClick={() => { if (replayRef.current) replayRef.current.speed = speed; }}
+                        className={`px-2 py-1 rounded text-sm border ${replayView.speed === speed ? 'bg-slate-700 border-indigo-400' : 'bg-slate-800 border-slate-700 hover:border-slate-500'}`}
+                    >
+                        {speed}x
+                    </button>
+                ))}
+                <button onClick={exitReplay} className="ml-auto px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-sm">
+                    EXIT
+                </button>
+            </div>
+        </div>
+      )}
+
+      {/* Replay Import */}
+      <input ref={replayFileRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+      <input ref={saveFileRef} type="file" accept="text/plain,.txt" className="hidden" onChange={importSaveFile} />
+      <input ref={levelFileRef} type="file" accept="application/json,.json" className="hidden" onChange={loadLevelFile} />
+
+      {/* Level Editor */}
+      {gameState === 'EDITOR' && (
+          <LevelEditorPanel
+            level={editor.level}
+            selected={editor.selected}
+            tool={editor.tool}
+            bundled={CAMPAIGN}
+            message={editorMessage}
+            onChange={changeEditorLevel}
+            onSelect={selected => setEditor(prev => ({ ...prev, selected }))}
+            onToolChange={tool => setEditor(prev => ({ ...prev, tool }))}
+            onOpen={level => setEditor(prev => ({ ...prev, level, selected: null }))}
+            onNew={() => setEditor(prev => ({ ...prev, level: createBlankLevel({ x: START_X, y: START_Y }), selected: null }))}
+            onLoad={() => levelFileRef.current?.click()}
+            onSave={saveLevelFile}
+            onTestPlay={testPlayLevel}
+            onExit={exitEditor}
+          />
+      )}
+
       {/* Rules Button */}
       <button 
         onClick={() => setShowRules(true)}
@@ -1193,6 +1878,36 @@ export default function GameCanvas() {
         </svg>
       </button>
 
+      {/* Audio Settings Button */}
+      <button
+        onClick={() => {
+          soundManager.playUi('click');
+          setShowAudio(true);
+        }}
+        className="absolute top-4 right-28 z-10 p-3 bg-slate-800/80 hover:bg-slate-700 text-white rounded-lg border border-slate-600 transition-colors shadow-lg"
+        title="Audio Settings"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M11 5 6 9H2v6h4l5 4V5z"/>
+            {audioSettings.muted ? (
+              <>
+                <line x1="22" y1="9" x2="16" y2="15"/>
+                <line x1="16" y1="9" x2="22" y2="15"/>
+              </>
+            ) : (
+              <path d="M15.54 8.46a5 5 0 0 1 0 7.07M19.07 4.93a10 10 0 0 1 0 14.14"/>
+            )}
+        </svg>
+      </button>
+
+      {showAudio && (
+          <AudioSettingsPanel
+            settings={audioSettings}
+            onChange={changeAudioSettings}
+            onClose={() => setShowAudio(false)}
+          />
+      )}
+
       {/* Rules Modal */}
       {showRules && (
           <div className="absolute inset-0 bg-black/80 flex items-center justify-center backdrop-blur-sm z-50" onClick={() => setShowRules(false)}>
@@ -1218,6 +1933,21 @@ export default function GameCanvas() {
                               </div>
                           </div>
 
+                          <div className="flex gap-3">
+                              <div className="bg-indigo-900/50 p-2 rounded h-fit shrink-0">
+                                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#818cf8" strokeWidth="2" strokeLinecap="round"><rect x="2" y="6" width="20" height="12" rx="2"/><path d="M6 12h4M8 10v4"/><circle cx="15.5" cy="11" r="0.5"/><circle cx="17.5" cy="13" r="0.5"/></svg>
+                              </div>
+                              <div>
+                                  <div className="text-white font-bold text-sm">KEYBOARD & GAMEPAD</div>
+                                  <div className="text-xs text-slate-400 mt-1">
+                                      <ul className="list-disc list-inside space-y-1">
+                                          <li><b>Keys:</b> Up/Down aim, Left/Right set power. Hold Space to charge, release to throw, Space again to dive. After a run, the arrows pick an upgrade and Enter buys it; with none picked, Enter plays again.</li>
+                                          <li><b>Gamepad:</b> Left stick aims, the right trigger sets power and letting go throws. A dives. After a run, the d-pad picks an upgrade and A buys it; Start plays again.</li>
+                                      </ul>
+                                  </div>
+                              </div>
+                          </div>
+
                           <div className="flex gap-3">
                               <div className="bg-indigo-900/50 p-2 rounded h-fit shrink-0">
                                   <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#fbbf24" strokeWidth="2"><circle cx="12" cy="12" r="10"/><path d="m16 12-4-4-4 4"/><path d="M12 16V8"/></svg>
@@ -1257,10 +1987,24 @@ export default function GameCanvas() {
                           <h3 className="text-indigo-400 font-bold uppercase tracking-wider text-sm border-b border-slate-700 pb-2">Target Types</h3>
                           
                           <div className="text-xs text-slate-400 space-y-2">
-                              <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-green-400 shadow-[0_0_10px_rgba(74,222,128,0.5)]"></span> <div><span className="text-green-400 font-bold">BOOST</span><br/>Explosive speed boost! Aim for these.</div></div>
-                              <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-amber-400 shadow-[0_0_10px_rgba(251,191,36,0.5)]"></span> <div><span className="text-amber-400 font-bold">COIN</span><br/>Gives you currency ($10) to buy upgrades.</div></div>
-                              <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]"></span> <div><span className="text-red-500 font-bold">BLOCK</span><br/>Heavy & Slow. Avoid unless you have high MASS to smash them!</div></div>
-                              <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.5)]"></span> <div><span className="text-indigo-400 font-bold">NORMAL</span><br/>Standard bounce. Good for combos.</div></div>
+                              {TARGET_TYPE_IDS.map(type => {
+                                  const { guide } = TARGET_TYPES[type];
+                                  return (
+                                      <div key={type} className="flex items-center gap-2"><span className={`w-3 h-3 rounded-full shrink-0 ${guide.dot}`}></span> <div><span className={`${guide.accent} font-bold`}>{type.replace('_', '-')}</span><br/>{guide.description}</div></div>
+                                  );
+                              })}
+                          </div>
+
+                          <h3 className="text-indigo-400 font-bold uppercase tracking-wider text-sm border-b border-slate-700 pb-2 mt-4">Power-Ups</h3>
+
+                          <div className="text-xs text-slate-400 space-y-2">
+                              <p>Fly through a floating bubble to grab it. Its timer only runs while you are in the air.</p>
+                              {POWER_UP_IDS.map(id => {
+                                  const def = POWER_UPS[id];
+                                  return (
+                                      <div key={id} className="flex items-center gap-2"><span className="w-5 text-center shrink-0">{def.icon}</span> <div><span className="font-bold" style={{ color: def.color }}>{def.name.toUpperCase()}</span> <span className="text-slate-500">{def.duration}s</span><br/>{def.description}</div></div>
+                                  );
+                              })}
                           </div>
 
                           <div className="flex gap-3 mt-4 pt-4 border-t border-slate-700">
@@ -1313,44 +2057,171 @@ export default function GameCanvas() {
         className="bg-slate-950 rounded-xl shadow-2xl cursor-crosshair max-w-full touch-none"
         onMouseDown={handleMouseDown}
         onTouchStart={handleMouseDown}
+        onWheel={handleWheel}
       />
 
       {/* Main Menu */}
       {gameState === 'MENU' && (
           <div className="absolute inset-0 bg-black/60 flex items-center justify-center backdrop-blur-sm z-20">
               <div className="bg-slate-900 p-8 rounded-2xl border border-indigo-500/30 shadow-2xl text-center max-w-md animate-in fade-in zoom-in duration-300">
-                  <h1 className="text-6xl font-black text-white mb-2 font-sans tracking-tighter italic transform -skew-x-6">
-                      NUMBER<br/><span className="text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">SKIPPER</span>
-                  </h1>
-                  <p className="text-slate-400 mb-6 text-lg">Drag, aim, and skip your way to infinity.</p>
+                  {showLevels ? (
+                      <LevelSelect
+                        packs={LEVEL_PACKS}
+                        campaign={CAMPAIGN}
+                        progress={levelProgress}
+                        onPlay={startLevel}
+                        onBack={() => setShowLevels(false)}
+                      />
+                  ) : (
+                  <>
+                      <h1 className="text-6xl font-black text-white mb-2 font-sans tracking-tighter italic transform -skew-x-6">
+                          NUMBER<br/><span className="text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">SKIPPER</span>
+                      </h1>
+                      <p className="text-slate-400 mb-6 text-lg">Drag, aim, and skip your way to infinity.</p>
                   
-                  {/* Lifetime Stats */}
-                  <div className="grid grid-cols-2 gap-4 mb-8 text-left bg-slate-800/50 p-4 rounded-xl border border-white/5">
-                      <div>
-                          <div className="text-xs text-slate-500 uppercase tracking-widest">High Score</div>
-                          <div className="text-xl font-mono font-bold text-white">{lifetimeStats.highScore.toLocaleString()}</div>
+                      {/* Lifetime Stats */}
+                      <div className="grid grid-cols-2 gap-4 mb-8 text-left bg-slate-800/50 p-4 rounded-xl border border-white/5">
+                          <div>
+                              <div className="text-xs text-slate-500 uppercase tracking-widest">High Score</div>
+                              <div className="text-xl font-mono font-bold text-white">{lifetimeStats.highScore.toLocaleString()}</div>
+                          </div>
+                          <div>
+                              <div className="text-xs text-slate-500 uppercase tracking-widest">Max Dist</div>
+                              <div className="text-xl font-mono font-bold text-white">{lifetimeStats.maxDistance.toLocaleString()}m</div>
+                          </div>
+                          <div>
+                              <div className="text-xs text-slate-500 uppercase tracking-widest">Total Skips</div>
+                              <div className="text-xl font-mono font-bold text-white">{lifetimeStats.totalSkips.toLocaleString()}</div>
+                          </div>
+                          <div>
+                              <div className="text-xs text-slate-500 uppercase tracking-widest">Total Dist</div>
+                              <div className="text-xl font-mono font-bold text-white">{(lifetimeStats.totalDistance / 1000).toFixed(1)}km</div>
+                          </div>
                       </div>
-                      <div>
-                          <div className="text-xs text-slate-500 uppercase tracking-widest">Max Dist</div>
-                          <div className="text-xl font-mono font-bold text-white">{lifetimeStats.maxDistance.toLocaleString()}m</div>
+
+                      <div className="mb-6">
+                          <LeaderboardPanel />
                       </div>
-                      <div>
-                          <div className="text-xs text-slate-500 uppercase tracking-widest">Total Skips</div>
-                          <div className="text-xl font-mono font-bold text-white">{lifetimeStats.totalSkips.toLocaleString()}</div>
+
+                      <div className="mb-6">{ghostPicker}</div>
+
+                      {/* Stone Type */}
+                      <div className="mb-6 text-left">
+                          <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Stone</div>
+                          <div className="grid grid-cols-4 gap-2">
+                              {STONE_TYPE_IDS.map(id => {
+                                const stone = STONE_TYPES[id];
+                                const owned = stones.owned.includes(id);
+                                return (
+                                  <button
+                                    key={id}
+                                    onClick={() => selectStone(stone)}
+                                    disabled={!owned && stats.currency < stone.unlockCost}
+                                    className={`px-2 py-2 rounded-lg border font-mono text-xs transition-colors disabled:opacity-40 ${stones.selected === id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                                  >
+                                      <div className="font-bold">{stone.name.toUpperCase()}</div>
+                                      <div className="text-[10px] opacity-80">{owned ? 'OWNED' : `$${stone.unlockCost.toLocaleString()}`}</div>
+                                  </button>
+                                );
+                              })}
+                          </div>
+                          <p className="text-xs text-slate-400 mt-2">{STONE_TYPES[stones.selected].description}</p>
                       </div>
-                      <div>
-                          <div className="text-xs text-slate-500 uppercase tracking-widest">Total Dist</div>
-                          <div className="text-xl font-mono font-bold text-white">{(lifetimeStats.totalDistance / 1000).toFixed(1)}km</div>
+
+                      {/* Save Slots */}
+                      <div className="mb-6 text-left">
+                          <div className="flex justify-between items-center mb-2">
+                              <div className="text-xs text-slate-500 uppercase tracking-widest">Save Slot</div>
+                              <button
+                                onClick={resetProgress}
+                                className="text-[10px] text-red-400/80 hover:text-red-300 uppercase tracking-widest"
+                              >
+                                  Reset Progress
+                              </button>
+                          </div>
+                          <div className="grid grid-cols-3 gap-2">
+                              {Array.from({ length: SAVE_SLOTS }, (_, i) => {
+                                const slot = saveStore?.slots[i];
+                                return (
+                                  <button
+                                    key={i}
+                                    onClick={() => switchSlot(i)}
+                                    className={`px-2 py-2 rounded-lg border font-mono text-xs transition-colors ${i === activeSlot ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                                  >
+                                      <div className="font-bold">SLOT {i + 1}</div>
+                                      <div className="text-[10px] opacity-80">
+                                          {slot ? `${slot.lifetime.highScore.toLocaleString()} PTS` : 'EMPTY'}
+                                      </div>
+                                  </button>
+                                );
+                              })}
+                          </div>
+                          <div className="flex justify-between mt-2 text-[10px] text-slate-400 uppercase tracking-widest">
+                              <button onClick={exportSaveFile} className="hover:text-white">Export File</button>
+                              <button onClick={copySaveCode} className="hover:text-white">Copy Code</button>
+                              <button onClick={() => saveFileRef.current?.click()} className="hover:text-white">Import File</button>
+                              <button onClick={pasteSaveCode} className="hover:text-white">Paste Code</button>
+                          </div>
+                          <div className="flex gap-2 mt-2">
+                              <input
+                                value={playerName}
+                                onChange={e => setPlayerName(e.target.value)}
+                                maxLength={24}
+                                placeholder="Player name"
+                                className="flex-1 min-w-0 px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-white font-mono text-xs focus:outline-none focus:border-indigo-400"
+                              />
+                              <button
+                                onClick={syncSlot}
+                                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white font-mono text-xs"
+                                title="Keep this slot in sync across devices under your player name; the newest save wins"
+                              >
+                                  SYNC
+                              </button>
+                          </div>
+                          {saveMessage && (
+                              <div className={`text-xs font-mono mt-2 ${saveMessage.error ? 'text-red-400' : 'text-emerald-400'}`}>{saveMessage.text}</div>
+                          )}
                       </div>
-                  </div>
 
-                  <button 
-                    onClick={resetRun}
-                    className="group relative px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-xl transition-all shadow-[0_0_20px_rgba(79,70,229,0.5)] hover:shadow-[0_0_30px_rgba(79,70,229,0.7)] hover:-translate-y-1"
-                  >
-                      START SKIPPING
-                      <div className="absolute inset-0 rounded-xl ring-2 ring-white/20 group-hover:ring-white/40 transition-all" />
-                  </button>
+                      <button
+                        onClick={startEndlessRun}
+                        className="group relative px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold text-xl transition-all shadow-[0_0_20px_rgba(79,70,229,0.5)] hover:shadow-[0_0_30px_rgba(79,70,229,0.7)] hover:-translate-y-1"
+                      >
+                          START SKIPPING
+                          <div className="absolute inset-0 rounded-xl ring-2 ring-white/20 group-hover:ring-white/40 transition-all" />
+                      </button>
+
+                      <button
+                        onClick={() => setShowLevels(true)}
+                        className="block w-full mt-4 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold tracking-wide border border-amber-500/40 transition-colors"
+                      >
+                          LEVELS
+                          <div className="text-[10px] font-mono font-normal text-amber-300 tracking-widest mt-1">
+                              {CAMPAIGN.filter(level => levelProgress[level.id]?.stars).length}/{CAMPAIGN.length} COMPLETE · {campaignStars}/{CAMPAIGN.length * MAX_STARS} ★
+                          </div>
+                      </button>
+
+                      <button
+                        onClick={startDailyChallenge}
+                        disabled={dailyPlayed}
+                        className="block w-full mt-4 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold tracking-wide border border-cyan-500/40 transition-colors disabled:opacity-60 disabled:hover:bg-slate-800"
+                      >
+                          DAILY CHALLENGE
+                          <div className="text-[10px] font-mono font-normal text-cyan-300 tracking-widest mt-1">
+                              {!dailyPlayed
+                                ? `${todayKey} · ONE SCORED ATTEMPT · FIXED STONE`
+                                : dailyAttempt?.finished
+                                  ? `PLAYED TODAY · ${dailyAttempt.score.toLocaleString()} PTS · ${dailyAttempt.distance}m`
+                                  : 'ATTEMPT USED TODAY'}
+                          </div>
+                      </button>
+
+                      <div className="flex justify-center gap-6 mt-4 text-xs text-slate-400 uppercase tracking-widest">
+                          <button onClick={() => replayFileRef.current?.click()} className="hover:text-white">Import Replay</button>
+                          <button onClick={() => openEditor()} className="hover:text-white">Level Editor</button>
+                      </div>
+                  </>
+                  )}
               </div>
           </div>
       )}
@@ -1362,8 +2233,32 @@ export default function GameCanvas() {
                   
                   {/* Header */}
                   <div className="text-center">
-                      <h2 className="text-4xl font-black text-white mb-2 tracking-tight">RUN COMPLETE</h2>
-                      {stats.score > 0 && stats.score >= lifetimeStats.highScore && (
+                      {isDailyRun && (
+                          <div className="text-cyan-300 font-mono text-xs tracking-widest mb-1">DAILY CHALLENGE · {todayKey}</div>
+                      )}
+                      {levelResult && (
+                          <div className="text-amber-300 font-mono text-xs tracking-widest mb-1">
+                              {isCampaignLevel(levelResult.level) ? 'LEVEL' : 'TEST PLAY'} · {levelResult.level.name.toUpperCase()}
+                          </div>
+                      )}
+                      <h2 className="text-4xl font-black text-white mb-2 tracking-tight">
+                          {!levelResult ? 'RUN COMPLETE' : levelResult.completed ? 'LEVEL COMPLETE' : 'LEVEL FAILED'}
+                      </h2>
+                      {levelResult ? (
+                          <div className="mb-4">
+                              <div className="text-4xl text-amber-300 tracking-widest">{formatStars(levelResult.stars)}</div>
+                              <div className="text-xs font-mono text-slate-400 mt-1">
+                                  {!levelResult.completed
+                                    ? `REACH ${levelResult.level.goal}m TO FINISH`
+                                    : isCampaignLevel(levelResult.level)
+                                      ? `PAR ${levelResult.level.par.toLocaleString()} · BEST ${(levelProgress[levelResult.level.id]?.bestScore ?? 0).toLocaleString()}`
+                                      : `PAR ${levelResult.level.par.toLocaleString()}`}
+                              </div>
+                              {levelResult.completed && isCampaignLevel(levelResult.level) && stats.score > 0 && stats.score >= (levelProgress[levelResult.level.id]?.bestScore ?? 0) && (
+                                  <div className="text-amber-400 font-bold text-lg animate-pulse mt-2">NEW BEST!</div>
+                              )}
+                          </div>
+                      ) : stats.score > 0 && stats.score >= lifetimeStats.highScore && (
                           <div className="text-amber-400 font-bold text-lg animate-pulse mb-4">NEW HIGH SCORE!</div>
                       )}
                       <div className="flex justify-center gap-12 mt-6 p-4 bg-slate-800/50 rounded-2xl border border-white/5">
@@ -1375,6 +2270,12 @@ export default function GameCanvas() {
                               <div className="text-xs text-slate-500 uppercase tracking-widest mb-1">Skips</div>
                               <div className="text-4xl font-mono font-bold text-indigo-400">{stats.skips}</div>
                           </div>
+                          {levelResult && (
+                              <div className="text-center">
+                                  <div className="text-xs text-slate-500 uppercase tracking-widest mb-1">Score</div>
+                                  <div className="text-4xl font-mono font-bold text-white">{stats.score.toLocaleString()}</div>
+                              </div>
+                          )}
                           <div className="text-center">
                               <div className="text-xs text-slate-500 uppercase tracking-widest mb-1">Earnings</div>
                               <div className="text-4xl font-mono font-bold text-amber-400">+${stats.currency}</div>
@@ -1382,91 +2283,189 @@ export default function GameCanvas() {
                       </div>
                   </div>
 
+                  {/* Shop Tabs */}
+                  <div className="flex justify-center gap-2 font-mono text-xs">
+                      {(['upgrades', 'cosmetics'] as const).map(tab => (
+                        <button
+                          key={tab}
+                          onClick={() => setShopTab(tab)}
+                          className={`px-4 py-1.5 rounded border uppercase tracking-widest transition-colors ${shopTab === tab ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                        >
+                            {tab}
+                        </button>
+                      ))}
+                  </div>
+
                   {/* Shop Grid */}
+                  {shopTab === 'upgrades' && (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                      {/* MASS */}
-                      <button 
-                        onClick={() => buyUpgrade('weight', 100, 0.2)}
-                        disabled={stats.currency < 100}
-                        className="bg-slate-800 p-5 rounded-xl border border-slate-700 hover:border-indigo-500 transition-all disabled:opacity-50 disabled:hover:border-slate-700 group text-left relative overflow-hidden flex flex-col h-full"
-                      >
-                          <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
-                              <svg width="80" height="80" viewBox="0 0 24 24" fill="currentColor"><circle cx="12" cy="12" r="10"/></svg>
-                          </div>
-                          <div className="flex justify-between items-start mb-2">
-                              <div className="text-indigo-400 font-bold text-sm tracking-wider">MASS</div>
-                              <div className="bg-slate-900 px-2 py-1 rounded text-xs font-mono text-slate-400">LVL {Math.round(playerStatsRef.current.weight * 5)}</div>
-                          </div>
-                          <p className="text-xs text-slate-400 mb-4 flex-grow">Increase size to SMASH through blocks without stopping.</p>
-                          <div className={`text-lg font-bold ${stats.currency >= 100 ? 'text-amber-400' : 'text-slate-600'}`}>
-                              $100
-                          </div>
-                      </button>
+                      {UPGRADES.map((upgrade, i) => {
+                        const level = upgradeLevels[upgrade.id];
+                        const cost = getUpgradeCost(upgrade, level);
+                        const affordable = cost !== null && stats.currency >= cost;
+                        return (
+                          <button
+                            key={upgrade.id}
+                            ref={el => { upgradeButtonsRef.current[i] = el; }}
+                            onClick={() => buyUpgrade(upgrade)}
+                            disabled={!affordable}
+                            className={`bg-slate-800 p-5 rounded-xl border border-slate-700 ${upgrade.accent} transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-400 disabled:opacity-50 disabled:hover:border-slate-700 group text-left relative overflow-hidden flex flex-col h-full`}
+                          >
+                              <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
+                                  <svg width="80" height="80" viewBox="0 0 24 24" fill="currentColor"><path d={upgrade.icon}/></svg>
+                              </div>
+                              <div className="flex justify-between items-start mb-2">
+                                  <div className="font-bold text-sm tracking-wider">{upgrade.name}</div>
+                                  <div className="bg-slate-900 px-2 py-1 rounded text-xs font-mono text-slate-400">LVL {level}/{upgrade.maxLevel}</div>
+                              </div>
+                              <p className="text-xs text-slate-400 mb-2 flex-grow">{upgrade.description}</p>
+                              <div className="text-[10px] font-mono text-slate-500 mb-2">
+                                  {upgrade.format(getStatValue(upgrade, level, stones.selected))}
+                                  {cost !== null && ` → ${upgrade.format(getStatValue(upgrade, level + 1, stones.selected))}`}
+                              </div>
+                              <div className={`text-lg font-bold ${affordable ? 'text-amber-400' : 'text-slate-600'}`}>
+                                  {cost === null ? 'MAXED' : `$${cost.toLocaleString()}`}
+                              </div>
+                          </button>
+                        );
+                      })}
+                  </div>
+                  )}
+
+                  {/* Cosmetics */}
+                  {shopTab === 'cosmetics' && (
+                  <div className="flex flex-col gap-4">
+                      {([
+                        { kind: 'skin', label: 'Stone Skins', items: STONE_SKINS },
+                        { kind: 'trail', label: 'Trails', items: TRAIL_SKINS },
+                      ] as const).map(section => (
+                        <div key={section.kind}>
+                            <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">{section.label}</div>
+                            <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                                {section.items.map(item => {
+                                  const owned = cosmetics.owned.includes(item.id);
+                                  const equipped = cosmetics.equipped[section.kind] === item.id;
+                                  return (
+                                    <button
+                                      key={item.id}
+                                      onClick={() => selectCosmetic(section.kind, item.id, item.price)}
+                                      disabled={!owned && stats.currency < item.price}
+                                      className={`bg-slate-800 p-3 rounded-xl border transition-all disabled:opacity-50 text-center ${equipped ? 'border-indigo-400' : 'border-slate-700 hover:border-indigo-500'}`}
+                                    >
+                                        {section.kind === 'skin'
+                                          ? <StonePreview skin={item as StoneSkin} />
+                                          : <StonePreview skin={getSkin(cosmetics.equipped.skin)} trail={item as TrailSkin} />}
+                                        <div className="text-xs font-bold text-white mt-1">{item.name}</div>
+                                        <div className={`text-xs font-mono ${equipped ? 'text-indigo-300' : owned ? 'text-slate-400' : 'text-amber-400'}`}>
+                                            {equipped ? 'EQUIPPED' : owned ? 'EQUIP' : `$${item.price.toLocaleString()}`}
+                                        </div>
+                                    </button>
+                                  );
+                                })}
+                            </div>
+                        </div>
+                      ))}
+                  </div>
+                  )}
+
+                  {/* Leaderboard (the endless lake only) */}
+                  {!levelResult && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="bg-slate-800/50 p-4 rounded-xl border border-white/5 flex flex-col gap-3">
+                          <div className="text-xs text-slate-500 uppercase tracking-widest">Submit to Leaderboard</div>
+                          <input
+                              value={playerName}
+                              onChange={e => setPlayerName(e.target.value)}
+                              maxLength={24}
+                              placeholder="Your name"
+                              className="bg-slate-900 border border-slate-700 rounded px-3 py-2 text-white font-mono text-sm focus:outline-none focus:border-indigo-500"
+                          />
+                          <button
+                              onClick={submitLastRun}
+                              disabled={!lastRun || !playerName.trim() || submission.status === 'sending' || submission.status === 'done'}
+                              className="py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded font-bold tracking-wide transition-colors disabled:opacity-50"
+                          >
+                              {submission.status === 'sending' ? 'SUBMITTING...' : submission.status === 'done' ? 'SUBMITTED' : 'SUBMIT RUN'}
+                          </button>
+                          {submission.message && (
+                              <div className={`text-xs font-mono ${submission.status === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>{submission.message}</div>
+                          )}
+                      </div>
+                      <LeaderboardPanel refreshKey={leaderboardKey} highlightId={submission.entryId} defaultDaily={isDailyRun} />
+                  </div>
+                  )}
+
+                  {!levelResult && ghostPicker}
 
-                      {/* AERO */}
-                      <button 
-                        onClick={() => buyUpgrade('aerodynamics', 500, 0.001)}
-                        disabled={stats.currency < 500}
-                        className="bg-slate-800 p-5 rounded-xl border border-slate-700 hover:border-sky-500 transition-all disabled:opacity-50 disabled:hover:border-slate-700 group text-left relative overflow-hidden flex flex-col h-full"
+                  {/* Replay */}
+                  <div className="grid grid-cols-3 gap-4">
+                      <button
+                          onClick={() => lastRun && startReplay(lastRun)}
+                          disabled={!lastRun}
+                          className="py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold tracking-wide transition-colors disabled:opacity-50"
                       >
-                          <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
-                              <svg width="80" height="80" viewBox="0 0 24 24" fill="currentColor"><path d="M2 12h20"/><path d="M19 12l-7-7"/><path d="M19 12l-7 7"/></svg>
-                          </div>
-                          <div className="flex justify-between items-start mb-2">
-                              <div className="text-sky-400 font-bold text-sm tracking-wider">AERO</div>
-                              <div className="bg-slate-900 px-2 py-1 rounded text-xs font-mono text-slate-400">LVL {Math.round((playerStatsRef.current.aerodynamics - 0.9) * 1000)}</div>
-                          </div>
-                          <p className="text-xs text-slate-400 mb-4 flex-grow">Reduce air resistance to fly further and faster.</p>
-                          <div className={`text-lg font-bold ${stats.currency >= 500 ? 'text-amber-400' : 'text-slate-600'}`}>
-                              $500
-                          </div>
+                          WATCH REPLAY
                       </button>
-
-                      {/* BOUNCE */}
-                      <button 
-                        onClick={() => buyUpgrade('bounciness', 250, 0.05)}
-                        disabled={stats.currency < 250}
-                        className="bg-slate-800 p-5 rounded-xl border border-slate-700 hover:border-emerald-500 transition-all disabled:opacity-50 disabled:hover:border-slate-700 group text-left relative overflow-hidden flex flex-col h-full"
+                      <button
+                          onClick={() => lastRun && exportReplay(lastRun)}
+                          disabled={!lastRun}
+                          className="py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold tracking-wide border border-slate-700 transition-colors disabled:opacity-50"
                       >
-                          <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
-                              <svg width="80" height="80" viewBox="0 0 24 24" fill="currentColor"><path d="M12 5v14"/><path d="m19 12-7 7-7-7"/></svg>
-                          </div>
-                          <div className="flex justify-between items-start mb-2">
-                              <div className="text-emerald-400 font-bold text-sm tracking-wider">BOUNCE</div>
-                              <div className="bg-slate-900 px-2 py-1 rounded text-xs font-mono text-slate-400">LVL {Math.round(playerStatsRef.current.bounciness * 100)}</div>
-                          </div>
-                          <p className="text-xs text-slate-400 mb-4 flex-grow">Retain more velocity after hitting targets.</p>
-                          <div className={`text-lg font-bold ${stats.currency >= 250 ? 'text-amber-400' : 'text-slate-600'}`}>
-                              $250
-                          </div>
+                          EXPORT REPLAY
                       </button>
-
-                      {/* POWER */}
-                      <button 
-                        onClick={() => buyUpgrade('maxPower', 125, 2)}
-                        disabled={stats.currency < 125}
-                        className="bg-slate-800 p-5 rounded-xl border border-slate-700 hover:border-rose-500 transition-all disabled:opacity-50 disabled:hover:border-slate-700 group text-left relative overflow-hidden flex flex-col h-full"
+                      <button
+                          onClick={() => replayFileRef.current?.click()}
+                          className="py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold tracking-wide border border-slate-700 transition-colors"
                       >
-                          <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-20 transition-opacity">
-                              <svg width="80" height="80" viewBox="0 0 24 24" fill="currentColor"><path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z"/></svg>
-                          </div>
-                          <div className="flex justify-between items-start mb-2">
-                              <div className="text-rose-400 font-bold text-sm tracking-wider">POWER</div>
-                              <div className="bg-slate-900 px-2 py-1 rounded text-xs font-mono text-slate-400">LVL {playerStatsRef.current.maxPower}</div>
-                          </div>
-                          <p className="text-xs text-slate-400 mb-4 flex-grow">Increase maximum launch velocity.</p>
-                          <div className={`text-lg font-bold ${stats.currency >= 125 ? 'text-amber-400' : 'text-slate-600'}`}>
-                              $125
-                          </div>
+                          IMPORT REPLAY
                       </button>
                   </div>
 
+                  {levelResult && !isCampaignLevel(levelResult.level) ? (
+                      <div className="grid grid-cols-2 gap-4 mt-2">
+                          <button
+                              onClick={() => openEditor()}
+                              className="py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-black text-xl tracking-wide border border-slate-700 transition-colors"
+                          >
+                              EDIT LEVEL
+                          </button>
+                          <button
+                              onClick={resetRun}
+                              className="py-4 bg-white hover:bg-slate-200 text-slate-900 rounded-xl font-black text-xl tracking-wide transition-colors shadow-lg"
+                          >
+                              RETRY
+                          </button>
+                      </div>
+                  ) : levelResult ? (
+                      <div className="grid grid-cols-3 gap-4 mt-2">
+                          <button
+                              onClick={openLevels}
+                              className="py-4 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-black text-xl tracking-wide border border-slate-700 transition-colors"
+                          >
+                              LEVELS
+                          </button>
+                          <button
+                              onClick={resetRun}
+                              className="py-4 bg-white hover:bg-slate-200 text-slate-900 rounded-xl font-black text-xl tracking-wide transition-colors shadow-lg"
+                          >
+                              RETRY
+                          </button>
+                          <button
+                              onClick={() => nextLevel && startLevel(nextLevel)}
+                              disabled={!nextLevel || !levelProgress[levelResult.level.id]?.stars}
+                              className="py-4 bg-amber-500 hover:bg-amber-400 text-slate-900 rounded-xl font-black text-xl tracking-wide transition-colors shadow-lg disabled:opacity-40 disabled:hover:bg-amber-500"
+                          >
+                              NEXT LEVEL
+                          </button>
+                      </div>
+                  ) : (
                   <button 
                       onClick={resetRun}
                       className="w-full py-4 bg-white hover:bg-slate-200 text-slate-900 rounded-xl font-black text-xl tracking-wide transition-colors shadow-lg mt-2"
                   >
                       PLAY AGAIN
                   </button>
+                  )}
               </div>
           </div>
       )}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { LeaderboardCategory, LeaderboardEntry } from '../types';
+import { fetchLeaderboard } from '../utils/leaderboard';
+import { getDailyKey } from '../utils/daily';
+
+const TABS: { by: LeaderboardCategory; label: string }[] = [
+  { by: 'score', label: 'SCORE' },
+  { by: 'distance', label: 'DIST' },
+  { by: 'skips', label: 'SKIPS' },
+];
+
+const formatValue = (entry: LeaderboardEntry, by: LeaderboardCategory) => {
+  if (by === 'distance') return `${entry.distance.toLocaleString()}m`;
+  return entry[by].toLocaleString();
+};
+
+interface LeaderboardPanelProps {
+  refreshKey?: number; // Bump to refetch, e.g. after submitting a run
+  highlightId?: number;
+  defaultDaily?: boolean; // Open on today's Daily Challenge table
+}
+
+export default function LeaderboardPanel({ refreshKey = 0, highlightId, defaultDaily = false }: LeaderboardPanelProps) {
+  const [by, setBy] = useState<LeaderboardCategory>('score');
+  const [daily, setDaily] = useState(defaultDaily);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'offline'>('loading');
+
+  useEffect(() => setDaily(defaultDaily), [defaultDaily]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    fetchLeaderboard(by, 10, daily ? getDailyKey() : undefined)
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result);
+        setStatus('ready');
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error("Leaderboard load failed", e);
+        setStatus('offline');
+      });
+    return () => { cancelled = true; };
+  }, [by, daily, refreshKey]);
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-white/5 text-left">
+      <div className="flex justify-between items-center mb-3">
+        <button
+          onClick={() => setDaily(d => !d)}
+          className="text-xs text-slate-500 hover:text-white uppercase tracking-widest"
+          title="Switch between all-time and today's Daily Challenge"
+        >
+          {daily ? 'Daily Leaderboard' : 'Leaderboard'} <span className="text-slate-600">⇄</span>
+        </button>
+        <div className="flex gap-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.by}
+              onClick={() => setBy(tab.by)}
+              className={`px-2 py-0.5 rounded text-[10px] font-mono tracking-wider border ${by === tab.by ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {status === 'loading' && <div className="text-xs text-slate-500 font-mono">Loading...</div>}
+      {status === 'offline' && <div className="text-xs text-slate-500 font-mono">Leaderboard server is offline.</div>}
+      {status === 'ready' && entries.length === 0 && <div className="text-xs text-slate-500 font-mono">No runs yet. Be the first!</div>}
+      {status === 'ready' && entries.length > 0 && (
+        <ol className="space-y-1 font-mono text-sm">
+          {entries.map((entry, i) => (
+            <li
+              key={entry.id}
+              className={`flex justify-between gap-4 px-2 py-0.5 rounded ${entry.id === highlightId ? 'bg-indigo-600/40 text-white' : 'text-slate-300'}`}
+            >
+              <span className="truncate"><span className="text-slate-500 w-6 inline-block">{i + 1}.</span>{entry.name}</span>
+              <span className="font-bold">{formatValue(entry, by)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
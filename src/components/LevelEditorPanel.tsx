@@ -0,0 +1,207 @@
+import { BiomeId, LevelDef, LevelTarget, SurfaceNumber, Weather } from '../types';
+import { PORTAL_JUMP, TARGET_TYPES, TARGET_TYPE_IDS } from '../utils/targets';
+import { BIOMES } from '../utils/biomes';
+
+const inputClass = 'w-full min-w-0 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white font-mono text-xs focus:outline-none focus:border-indigo-400';
+const labelClass = 'flex flex-col gap-1 text-[10px] text-slate-500 uppercase tracking-widest';
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  step?: number;
+  placeholder?: string; // Shown when an optional value is left to its default
+  optional?: boolean; // Clearing the field removes the value
+  onChange: (value: number | undefined) => void;
+}
+
+// Ignores half-typed numbers instead of writing NaN into the level
+function NumberField({ label, value, step = 1, placeholder, optional = false, onChange }: NumberFieldProps) {
+  return (
+    <label className={labelClass}>
+      {label}
+      <input
+        type="number"
+        value={value ?? ''}
+        step={step}
+        placeholder={placeholder}
+        onChange={e => {
+          if (e.target.value === '') {
+            if (optional) onChange(undefined);
+            return;
+          }
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(parsed);
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+interface LevelEditorPanelProps {
+  level: LevelDef;
+  selected: number | null; // Index into level.targets
+  tool: SurfaceNumber['type']; // Type placed by clicking the water
+  bundled: LevelDef[]; // Levels that can be opened as a starting point
+  message: { text: string; error?: boolean } | null;
+  onChange: (level: LevelDef) => void;
+  onSelect: (index: number | null) => void;
+  onToolChange: (tool: SurfaceNumber['type']) => void;
+  onOpen: (level: LevelDef) => void;
+  onNew: () => void;
+  onLoad: () => void;
+  onSave: () => void;
+  onTestPlay: () => void;
+  onExit: () => void;
+}
+
+// Side panel for the level editor; the lake itself is edited on the game canvas
+export default function LevelEditorPanel({ level, selected, tool, bundled, message, onChange, onSelect, onToolChange, onOpen, onNew, onLoad, onSave, onTestPlay, onExit }: LevelEditorPanelProps) {
+  const target = selected !== null ? level.targets[selected] : undefined;
+
+  const setField = <K extends keyof LevelDef>(key: K, value: LevelDef[K]) => onChange({ ...level, [key]: value });
+
+  const setWeather = (key: keyof Weather, value: number) => setField('weather', { ...level.weather, [key]: value });
+
+  const updateTarget = (patch: Partial<LevelTarget>) => {
+    if (selected === null) return;
+    onChange({ ...level, targets: level.targets.map((t, i) => (i === selected ? { ...t, ...patch } : t)) });
+  };
+
+  // Hits, movement and portal exits only mean something on their own types, so switching type drops them
+  const setTargetType = (type: SurfaceNumber['type']) => {
+    if (!target) return;
+    const { hits, moveSpeed, moveRange, exitX, ...rest } = target;
+    const next: LevelTarget = { ...rest, type };
+    if (TARGET_TYPES[type].hits > 1 && hits !== undefined) next.hits = hits;
+    if (type === 'PORTAL' && exitX !== undefined) next.exitX = exitX;
+    if (type === 'MOVING') {
+      if (moveSpeed !== undefined) next.moveSpeed = moveSpeed;
+      if (moveRange !== undefined) next.moveRange = moveRange;
+    }
+    onChange({ ...level, targets: level.targets.map((t, i) => (i === selected ? next : t)) });
+  };
+
+  const deleteTarget = () => {
+    if (selected === null) return;
+    onChange({ ...level, targets: level.targets.filter((_, i) => i !== selected) });
+    onSelect(null);
+  };
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-72 z-20 bg-slate-900/95 border border-indigo-500/30 rounded-xl shadow-2xl p-4 overflow-y-auto flex flex-col gap-4 text-left">
+      <div className="flex justify-between items-center">
+        <div className="text-sm font-black text-white tracking-wide">LEVEL EDITOR</div>
+        <button onClick={onExit} className="text-xs text-slate-400 hover:text-white uppercase tracking-widest">Exit</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onTestPlay} className="col-span-2 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-bold text-sm tracking-wide">TEST PLAY</button>
+        <button onClick={onSave} className="py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white font-mono text-xs">SAVE JSON</button>
+        <button onClick={onLoad} className="py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white font-mono text-xs">LOAD JSON</button>
+        <button onClick={onNew} className="py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-white font-mono text-xs">NEW</button>
+        <select
+          value=""
+          onChange={e => {
+            const found = bundled.find(l => l.id === e.target.value);
+            if (found) onOpen(found);
+          }}
+          className={inputClass}
+        >
+          <option value="">OPEN...</option>
+          {bundled.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      </div>
+      {message && (
+        <div className={`text-xs font-mono ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</div>
+      )}
+
+      {/* Placing */}
+      <div>
+        <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Place</div>
+        <div className="grid grid-cols-2 gap-1">
+          {TARGET_TYPE_IDS.map(type => (
+            <button
+              key={type}
+              onClick={() => onToolChange(type)}
+              className={`flex items-center gap-2 px-2 py-1 rounded border font-mono text-[10px] ${tool === type ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ background: TARGET_TYPES[type].color }} />
+              {type}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500 mt-2">Click the water to place, drag a target to move it, Delete to remove it. Scroll to pan.</p>
+      </div>
+
+      {/* Selected target */}
+      {target && (
+        <div className="flex flex-col gap-2 p-3 rounded-lg border border-amber-500/40 bg-slate-800/50">
+          <div className="flex justify-between items-center">
+            <div className="text-xs text-amber-300 uppercase tracking-widest">Target {selected! + 1}</div>
+            <button onClick={deleteTarget} className="text-[10px] text-red-400/80 hover:text-red-300 uppercase tracking-widest">Delete</button>
+          </div>
+          <label className={labelClass}>
+            Type
+            <select value={target.type} onChange={e => setTargetType(e.target.value as SurfaceNumber['type'])} className={inputClass}>
+              {TARGET_TYPE_IDS.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField label="X" value={target.x} step={10} onChange={x => x !== undefined && updateTarget({ x })} />
+            <NumberField label="Value" value={target.value} onChange={value => value !== undefined && value >= 1 && updateTarget({ value: Math.floor(value) })} />
+            <NumberField label="Weight" value={target.weight} step={0.1} optional placeholder={String(TARGET_TYPES[target.type].weight)} onChange={weight => updateTarget({ weight })} />
+            <NumberField label="Radius" value={target.radius} optional placeholder="auto" onChange={radius => updateTarget({ radius })} />
+            {TARGET_TYPES[target.type].hits > 1 && (
+              <NumberField label="Hits" value={target.hits} optional placeholder={String(TARGET_TYPES[target.type].hits)} onChange={hits => updateTarget({ hits: hits === undefined ? undefined : Math.max(1, Math.floor(hits)) })} />
+            )}
+            {target.type === 'MOVING' && (
+              <NumberField label="Move Range" value={target.moveRange} step={5} optional placeholder="50" onChange={moveRange => updateTarget({ moveRange })} />
+            )}
+            {target.type === 'PORTAL' && (
+              <NumberField label="Exit X" value={target.exitX} step={10} optional placeholder={String(target.x + PORTAL_JUMP)} onChange={exitX => (exitX === undefined || exitX > target.x) && updateTarget({ exitX })} />
+            )}
+            {target.type === 'MOVING' && (
+              <NumberField label="Move Speed" value={target.moveSpeed} step={0.01} optional placeholder="0.03" onChange={moveSpeed => updateTarget({ moveSpeed })} />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Level */}
+      <div className="flex flex-col gap-2">
+        <div className="text-xs text-slate-500 uppercase tracking-widest">Level</div>
+        <label className={labelClass}>
+          Name
+          <input value={level.name} onChange={e => setField('name', e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Id
+          <input value={level.id} onChange={e => setField('id', e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'))} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Description
+          <input value={level.description} onChange={e => setField('description', e.target.value)} className={inputClass} />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="Goal (m)" value={level.goal} step={10} onChange={goal => goal !== undefined && goal > 0 && setField('goal', goal)} />
+          <NumberField label="Par" value={level.par} step={100} onChange={par => par !== undefined && par >= 0 && setField('par', Math.floor(par))} />
+          <NumberField label="Start X" value={level.start.x} step={10} onChange={x => x !== undefined && setField('start', { ...level.start, x })} />
+          <NumberField label="Start Y" value={level.start.y} step={10} onChange={y => y !== undefined && setField('start', { ...level.start, y })} />
+        </div>
+        <label className={labelClass}>
+          Biome
+          <select value={level.biome} onChange={e => setField('biome', e.target.value as BiomeId)} className={inputClass}>
+            {BIOMES.map(biome => <option key={biome.id} value={biome.id}>{biome.name}</option>)}
+          </select>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="Wind" value={level.weather.wind} step={0.01} onChange={wind => wind !== undefined && setWeather('wind', wind)} />
+          <NumberField label="Chop" value={level.weather.chop} step={0.1} onChange={chop => chop !== undefined && setWeather('chop', Math.min(1, Math.max(0, chop)))} />
+          <NumberField label="Rain" value={level.weather.rain} step={0.1} onChange={rain => rain !== undefined && setWeather('rain', Math.min(1, Math.max(0, rain)))} />
+          <NumberField label="Fog" value={level.weather.fog} step={0.1} onChange={fog => fog !== undefined && setWeather('fog', Math.min(1, Math.max(0, fog)))} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { LevelDef, LevelPack, LevelProgress } from '../types';
+import { MAX_STARS, formatStars, isLevelUnlocked } from '../utils/levels';
+
+interface LevelSelectProps {
+  packs: LevelPack[];
+  campaign: LevelDef[]; // Every level in unlock order
+  progress: Record<string, LevelProgress>;
+  onPlay: (level: LevelDef) => void;
+  onBack: () => void;
+}
+
+// Campaign picker: packs in order, each level with its stars and best score
+export default function LevelSelect({ packs, campaign, progress, onPlay, onBack }: LevelSelectProps) {
+  const earned = campaign.reduce((sum, level) => sum + (progress[level.id]?.stars ?? 0), 0);
+
+  return (
+    <div className="text-left">
+      <div className="flex justify-between items-center mb-4">
+        <button onClick={onBack} className="text-xs text-slate-400 hover:text-white uppercase tracking-widest">← Back</button>
+        <div className="text-xs font-mono text-amber-300">{earned}/{campaign.length * MAX_STARS} ★</div>
+      </div>
+
+      <div className="flex flex-col gap-5 max-h-[60vh] overflow-y-auto pr-1">
+        {packs.map(pack => (
+          <div key={pack.id}>
+            <div className="text-sm font-bold text-white tracking-wide">{pack.name.toUpperCase()}</div>
+            <p className="text-xs text-slate-400 mb-2">{pack.description}</p>
+            <div className="grid grid-cols-1 gap-2">
+              {pack.levels.map((level, i) => {
+                const unlocked = isLevelUnlocked(campaign, progress, level.id);
+                const result = progress[level.id];
+                return (
+                  <button
+                    key={level.id}
+                    onClick={() => onPlay(level)}
+                    disabled={!unlocked}
+                    title={level.description}
+                    className="flex justify-between items-center gap-3 px-3 py-2 rounded-lg border bg-slate-800 border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500 transition-colors disabled:opacity-40 disabled:hover:border-slate-700"
+                  >
+                    <span className="truncate font-mono text-xs">
+                      <span className="text-slate-500 mr-2">{i + 1}.</span>
+                      {unlocked ? level.name : 'LOCKED'}
+                    </span>
+                    <span className="flex items-center gap-3 shrink-0 font-mono text-xs">
+                      {result?.bestScore ? <span className="text-slate-500">{result.bestScore.toLocaleString()}</span> : null}
+                      <span className="text-amber-300">{formatStars(result?.stars ?? 0)}</span>
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
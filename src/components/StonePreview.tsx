@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { StoneSkin, TrailSkin } from '../types';
+import { drawStone } from '../utils/cosmetics';
+
+const SIZE = 64;
+
+interface StonePreviewProps {
+  skin: StoneSkin;
+  trail?: TrailSkin; // Draws a short streak of trail puffs behind the stone
+}
+
+// Small shop thumbnail drawn with the same renderer as the game
+export default function StonePreview({ skin, trail }: StonePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, SIZE, SIZE);
+    if (trail) {
+      for (let i = 0; i < 6; i++) {
+        ctx.globalAlpha = 1 - i / 6;
+        ctx.fillStyle = trail.colors[i % trail.colors.length];
+        ctx.beginPath();
+        ctx.arc(SIZE * 0.55 - i * 7, SIZE * 0.6 + i * 3, 4 - i * 0.4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    }
+    ctx.save();
+    ctx.translate(trail ? SIZE * 0.65 : SIZE / 2, SIZE / 2);
+    drawStone(ctx, skin, trail ? 14 : 22, 10);
+    ctx.restore();
+  }, [skin, trail]);
+
+  return <canvas ref={canvasRef} width={SIZE} height={SIZE} className="mx-auto" />;
+}
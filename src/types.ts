@@ -4,7 +4,7 @@ export interface Vector2 {
 }
 
 export interface GameState {
-  status: 'MENU' | 'AIMING' | 'FLYING' | 'SINKING' | 'GAME_OVER' | 'SHOP';
+  status: 'MENU' | 'AIMING' | 'FLYING' | 'SINKING' | 'GAME_OVER' | 'SHOP' | 'REPLAY' | 'EDITOR';
   score: number;
   distance: number;
   skips: number;
@@ -17,6 +17,77 @@ export interface PlayerStats {
   bounciness: number; // 0-1, how much energy is conserved on bounce
   aerodynamics: number; // 0-1, how little air resistance there is
   maxPower: number;
+  spin: number; // Spin (rad per step) put on the stone at launch
+}
+
+export type StoneTypeId = 'pebble' | 'skimmer' | 'boulder' | 'disc';
+
+export interface StoneType {
+  id: StoneTypeId;
+  name: string;
+  description: string;
+  unlockCost: number;
+  stats: PlayerStats; // Base stats before upgrades
+  radiusScale: number;
+  squash: number; // Drawn height relative to width (1 = round)
+  smashPower: number; // Multiplies impact force against targets
+  waterBounce: number; // Share of vertical speed kept on a water skip
+  waterFriction: number; // Share of horizontal speed kept on a water skip
+  spinLift: number; // Extra share of gravity cancelled at full spin, on top of what any spinning stone gets
+}
+
+export interface StoneCollection {
+  owned: StoneTypeId[];
+  selected: StoneTypeId;
+}
+
+// Upgrades raise one stat each; `value` is fixed
+export type UpgradeId = 'weight' | 'aerodynamics' | 'bounciness' | 'maxPower' | 'spin';
+export type UpgradeLevels = Record<UpgradeId, number>;
+
+export interface UpgradeDef {
+  id: UpgradeId; // Also the stat it raises
+  name: string;
+  description: string;
+  icon: string; // SVG path data on a 24x24 grid
+  accent: string; // Tailwind classes for the label and hover border
+  baseCost: number;
+  costGrowth: number; // Cost multiplier per level bought
+  increment: number; // Stat gained per level
+  maxLevel: number;
+  min: number; // Clamp for the resulting stat
+  max: number;
+  format: (value: number) => string;
+}
+
+// Cosmetics only change how the stone looks, never how it flies
+export type CosmeticKind = 'skin' | 'trail';
+export type StoneShape = 'circle' | 'hexagon' | 'diamond';
+export type StonePattern = 'none' | 'stripes' | 'speckle' | 'ring';
+
+export interface StoneSkin {
+  id: string;
+  name: string;
+  price: number;
+  fill: string;
+  stroke: string;
+  label: string; // Color of the value drawn on the stone
+  shape: StoneShape;
+  pattern: StonePattern;
+  emoji?: string; // Drawn instead of the value
+}
+
+export interface TrailSkin {
+  id: string;
+  name: string;
+  price: number;
+  colors: string[]; // Each trail particle picks one
+  count: number; // Particles per trail puff
+}
+
+export interface CosmeticsState {
+  owned: string[];
+  equipped: Record<CosmeticKind, string>;
 }
 
 export interface SurfaceNumber {
@@ -27,7 +98,7 @@ export interface SurfaceNumber {
   weight: number;
   radius: number;
   color: string;
-  type: 'NORMAL' | 'BOOST' | 'BLOCK' | 'COIN' | 'MULTI_HIT' | 'MOVING' | 'GHOST';
+  type: 'NORMAL' | 'BOOST' | 'BLOCK' | 'COIN' | 'MULTI_HIT' | 'MOVING' | 'GHOST' | 'PORTAL' | 'BUMPER' | 'MAGNET' | 'BOMB';
   sunk: boolean;
   
   // New Properties
@@ -38,6 +109,46 @@ export interface SurfaceNumber {
   moveRange?: number;
   initialY?: number;
   opacity?: number; // For Ghost
+  exitX?: number; // Where a PORTAL lets the stone out
+}
+
+// One hand-placed target in a level; anything left out takes the target type's defaults
+export interface LevelTarget {
+  type: SurfaceNumber['type'];
+  x: number; // World x (the plank is at 100, 10px to the metre)
+  value: number;
+  weight?: number;
+  radius?: number;
+  hits?: number; // Hits a MULTI_HIT target takes
+  moveSpeed?: number; // Setting either makes the target move
+  moveRange?: number;
+  exitX?: number; // Where a PORTAL lets the stone out (defaults to 400px on)
+}
+
+// A handcrafted lake: fixed targets, conditions and a finish line instead of the endless generator
+export interface LevelDef {
+  id: string;
+  name: string;
+  description: string;
+  start: Vector2; // Where the stone waits to be launched
+  goal: number; // Distance (m) that completes the level
+  par: number; // Score that earns all three stars
+  biome: BiomeId;
+  weather: Weather;
+  targets: LevelTarget[];
+}
+
+export interface LevelPack {
+  id: string;
+  name: string;
+  description: string;
+  levels: LevelDef[];
+}
+
+// Best result per level, keyed by level id
+export interface LevelProgress {
+  stars: number; // 0 until the level is completed
+  bestScore: number;
 }
 
 export interface Particle {
@@ -59,3 +170,203 @@ export interface LifetimeStats {
   maxDistance: number;
   gamesPlayed: number;
 }
+
+export type RunStatus = 'AIMING' | 'FLYING' | 'SINKING' | 'GAME_OVER';
+
+export interface PlayerBody {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  rotation: number;
+  vr: number; // rotational velocity
+}
+
+export type BiomeId = 'lake' | 'rapids' | 'frozen' | 'lava';
+export type RGB = [number, number, number];
+
+// Parallax ridge behind the water
+export interface BiomeLayer {
+  color: RGB;
+  parallax: number; // Share of camera movement it follows
+  height: number;
+  amplitude: number;
+  frequency: number;
+}
+
+export interface BiomePalette {
+  sky: RGB;
+  stars: number; // Star opacity
+  layers: [BiomeLayer, BiomeLayer]; // Far, near
+  backWave: RGB;
+  waveTop: RGB;
+  waveBottom: RGB;
+  waveLine: RGB;
+}
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  startDistance: number; // Metres from the plank
+  palette: BiomePalette;
+  splash: string; // Particle color for skips and sinks
+  extraTargets: SurfaceNumber['type'][]; // Added to the target bag, so these show up more often
+  surface: {
+    skipBounce: number; // Multiplies the stone's waterBounce
+    skipFriction: number; // Multiplies the stone's waterFriction
+    skipAngle: number; // Extra degrees of entry angle that still skip
+    current: number; // Horizontal speed added on every skip
+    floatDrag: number; // Share of horizontal speed kept per step when floating
+    molten: boolean; // A soft landing sinks instead of floating
+  };
+}
+
+// Conditions for a stretch of lake; wind and chop change the physics, rain and fog are only drawn
+export interface Weather {
+  wind: number; // Horizontal push per step (px/step per step); positive is a tailwind
+  chop: number; // 0-1, rougher water: bigger waves and harder skips
+  rain: number; // 0-1
+  fog: number; // 0-1
+}
+
+// Emitted by PhysicsWorld.step so the renderer can add particles, text and sound
+export type PhysicsEvent =
+  | { type: 'status'; status: RunStatus }
+  | { type: 'weather'; weather: Weather }
+  | { type: 'biome'; biome: BiomeId }
+  | { type: 'launch'; x: number; y: number; vx: number; vy: number; isPerfect: boolean }
+  | { type: 'dive'; x: number; y: number }
+  | {
+      type: 'targetHit';
+      target: SurfaceNumber;
+      x: number;
+      y: number;
+      targetY: number;
+      impactVelocity: number;
+      impactForce: number;
+      isSmash: boolean;
+      points: number;
+      currency: number;
+      combo: number;
+    }
+  | { type: 'multiHit'; target: SurfaceNumber; x: number; y: number; targetY: number }
+  | { type: 'portal'; x: number; y: number; exitX: number; exitY: number }
+  | { type: 'powerUp'; powerUp: PowerUpId; x: number; y: number }
+  | { type: 'powerUpEnd'; powerUp: PowerUpId }
+  | { type: 'shield'; x: number; y: number }
+  | { type: 'bomb'; x: number; y: number; radius: number; targets: SurfaceNumber[]; points: number; currency: number }
+  | { type: 'waterSkip'; x: number; y: number; impactVelocity: number; entryAngle: number }
+  | { type: 'float'; x: number; y: number }
+  | { type: 'sink'; x: number; y: number; targetY?: number };
+
+// Timed pickups floating above the water. Their effects scale physics and scoring while active
+// and never touch the stone's stats, so upgrades and replays see the same numbers.
+export type PowerUpId = 'shield' | 'doubleScore' | 'lowGravity' | 'coinMagnet';
+
+export interface PowerUpDef {
+  id: PowerUpId;
+  name: string;
+  description: string;
+  color: string;
+  icon: string; // Emoji drawn on the pickup and in the HUD
+  duration: number; // Seconds of flight (the clock stops while aiming)
+  gravityScale?: number;
+  scoreScale?: number;
+  coinPull?: number; // Px per step that nearby coins drift towards the stone
+  blocksSink?: boolean; // Used up by the first sink it saves
+}
+
+export interface PowerUpPickup {
+  id: string;
+  type: PowerUpId;
+  x: number;
+  y: number;
+  collected: boolean;
+}
+
+export interface ActivePowerUp {
+  type: PowerUpId;
+  remaining: number; // Steps of flight left
+  duration: number;
+}
+
+// Player input, stamped with the simulation tick it was applied at
+export type RunInput =
+  | { tick: number; type: 'launch'; dx: number; dy: number }
+  | { tick: number; type: 'dive' };
+
+// Everything needed to re-simulate a run step for step
+export interface RunRecord {
+  version: 7; // Bumped whenever a physics change would make old runs replay differently
+  seed: number;
+  stats: PlayerStats;
+  stone?: StoneTypeId; // Missing on runs recorded before stone types (pebble)
+  inputs: RunInput[];
+  ticks: number; // Simulation length
+  result: {
+    score: number;
+    distance: number;
+    skips: number;
+    currency: number;
+  };
+  recordedAt: number;
+  daily?: string; // Daily Challenge day key, e.g. "2026-10-19"
+  level?: LevelDef; // The whole level, so runs on edited or removed levels still replay
+}
+
+// Personal-best runs kept for ghost racing, keyed like the LifetimeStats bests
+export type GhostTarget = 'highScore' | 'maxDistance';
+export type BestRuns = Partial<Record<GhostTarget, RunRecord>>;
+
+export type LeaderboardCategory = 'score' | 'distance' | 'skips';
+
+export interface LeaderboardEntry {
+  id: number;
+  name: string;
+  daily: string | null;
+  score: number;
+  distance: number;
+  skips: number;
+  createdAt: number;
+}
+
+// The one scored Daily Challenge attempt, kept locally
+export interface DailyAttempt {
+  key: string;
+  finished: boolean;
+  score: number;
+  distance: number;
+  skips: number;
+}
+
+// One save slot: everything a player has earned
+export interface SaveData {
+  version: number;
+  currency: number;
+  upgrades: UpgradeLevels;
+  cosmetics: CosmeticsState;
+  stones: StoneCollection;
+  lifetime: LifetimeStats;
+  bestRuns: BestRuns;
+  levels: Record<string, LevelProgress>;
+  updatedAt: number;
+}
+
+// Mixer settings, shared by all slots since they belong to the device rather than the player
+export interface AudioSettings {
+  master: number; // 0-1
+  effects: number;
+  music: number;
+  ui: number;
+  muted: boolean;
+  reduceHarsh: boolean; // Swaps sawtooth thuds for softer tones
+  soundPack: string | null; // Bundled sample pack, or null for synth only
+}
+
+export interface SaveStore {
+  activeSlot: number;
+  slots: (SaveData | null)[];
+  daily: DailyAttempt | null;
+  audio: AudioSettings;
+}
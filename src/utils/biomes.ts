@@ -0,0 +1,138 @@
+import { Biome, BiomeId, BiomePalette, BiomeLayer, RGB } from '../types';
+
+// The lake changes as you go further out. Physics switches biome exactly at its start distance;
+// the renderer blends palettes over BIOME_BLEND metres before it so the change isn't a cut.
+
+export const BIOME_BLEND = 100; // Metres
+
+export const BIOMES: Biome[] = [
+    {
+        id: 'lake',
+        name: 'Lake',
+        startDistance: 0,
+        palette: {
+            sky: [15, 23, 42], // Slate-900
+            stars: 1,
+            layers: [
+                { color: [30, 41, 59], parallax: 0.2, height: 100, amplitude: 50, frequency: 0.01 },
+                { color: [22, 32, 50], parallax: 0.35, height: 40, amplitude: 15, frequency: 0.025 },
+            ],
+            backWave: [30, 58, 138], // Blue-900
+            waveTop: [59, 130, 246], // Blue-500
+            waveBottom: [30, 58, 138],
+            waveLine: [96, 165, 250], // Blue-400
+        },
+        splash: '#3b82f6',
+        extraTargets: [],
+        surface: { skipBounce: 1, skipFriction: 1, skipAngle: 0, current: 0, floatDrag: 0.85, molten: false },
+    },
+    {
+        id: 'rapids',
+        name: 'River Rapids',
+        startDistance: 500,
+        palette: {
+            sky: [12, 30, 36],
+            stars: 0.6,
+            layers: [
+                { color: [20, 61, 52], parallax: 0.2, height: 160, amplitude: 70, frequency: 0.02 },
+                { color: [13, 45, 38], parallax: 0.35, height: 70, amplitude: 30, frequency: 0.04 },
+            ],
+            backWave: [15, 82, 86],
+            waveTop: [45, 212, 191], // Teal-400
+            waveBottom: [17, 94, 89],
+            waveLine: [153, 246, 228],
+        },
+        splash: '#5eead4',
+        extraTargets: ['MOVING', 'MOVING', 'BOOST'],
+        surface: { skipBounce: 0.95, skipFriction: 1, skipAngle: 0, current: 1.5, floatDrag: 0.9, molten: false },
+    },
+    {
+        id: 'frozen',
+        name: 'Frozen Lake',
+        startDistance: 1200,
+        palette: {
+            sky: [30, 41, 59],
+            stars: 0.8,
+            layers: [
+                { color: [148, 163, 184], parallax: 0.2, height: 130, amplitude: 60, frequency: 0.012 },
+                { color: [203, 213, 225], parallax: 0.35, height: 50, amplitude: 12, frequency: 0.03 },
+            ],
+            backWave: [148, 163, 184],
+            waveTop: [224, 242, 254], // Sky-100
+            waveBottom: [125, 211, 252],
+            waveLine: [255, 255, 255],
+        },
+        splash: '#e0f2fe',
+        extraTargets: ['GHOST', 'COIN', 'NORMAL'],
+        // Ice: flat and slippery, so steep throws still skip and sliding stones keep going
+        surface: { skipBounce: 0.9, skipFriction: 1.06, skipAngle: 10, current: 0, floatDrag: 0.98, molten: false },
+    },
+    {
+        id: 'lava',
+        name: 'Lava Sea',
+        startDistance: 2000,
+        palette: {
+            sky: [41, 14, 10],
+            stars: 0.2,
+            layers: [
+                { color: [68, 20, 12], parallax: 0.2, height: 180, amplitude: 90, frequency: 0.015 },
+                { color: [40, 10, 6], parallax: 0.35, height: 80, amplitude: 40, frequency: 0.035 },
+            ],
+            backWave: [127, 29, 29], // Red-900
+            waveTop: [249, 115, 22], // Orange-500
+            waveBottom: [153, 27, 27],
+            waveLine: [253, 224, 71],
+        },
+        splash: '#f97316',
+        extraTargets: ['BLOCK', 'BLOCK', 'MULTI_HIT'],
+        // Hot updraft on every skip, but touch down gently and you're gone
+        surface: { skipBounce: 1.1, skipFriction: 0.95, skipAngle: 0, current: 0, floatDrag: 0.85, molten: true },
+    },
+];
+
+export const getBiomeById = (id: BiomeId) => BIOMES.find(biome => biome.id === id) || BIOMES[0];
+
+// Biome at an x position (pixels; 10px per metre)
+export const getBiome = (x: number) => {
+    const distance = x / 10;
+    let current = BIOMES[0];
+    for (const biome of BIOMES) {
+        if (distance >= biome.startDistance) current = biome;
+    }
+    return current;
+};
+
+// --- Rendering ---
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+const mixRgb = (a: RGB, b: RGB, t: number): RGB => [mix(a[0], b[0], t), mix(a[1], b[1], t), mix(a[2], b[2], t)];
+
+const mixLayer = (a: BiomeLayer, b: BiomeLayer, t: number): BiomeLayer => ({
+    color: mixRgb(a.color, b.color, t),
+    parallax: mix(a.parallax, b.parallax, t),
+    height: mix(a.height, b.height, t),
+    amplitude: mix(a.amplitude, b.amplitude, t),
+    frequency: mix(a.frequency, b.frequency, t),
+});
+
+// Palette to draw at an x position, fading into the next biome as its start approaches
+export const getBiomePalette = (x: number): BiomePalette => {
+    const current = getBiome(x);
+    const next = BIOMES[BIOMES.indexOf(current) + 1];
+    if (!next) return current.palette;
+    const t = Math.min(1, Math.max(0, (x / 10 - (next.startDistance - BIOME_BLEND)) / BIOME_BLEND));
+    if (t === 0) return current.palette;
+    const a = current.palette;
+    const b = next.palette;
+    return {
+        sky: mixRgb(a.sky, b.sky, t),
+        stars: mix(a.stars, b.stars, t),
+        layers: [mixLayer(a.layers[0], b.layers[0], t), mixLayer(a.layers[1], b.layers[1], t)],
+        backWave: mixRgb(a.backWave, b.backWave, t),
+        waveTop: mixRgb(a.waveTop, b.waveTop, t),
+        waveBottom: mixRgb(a.waveBottom, b.waveBottom, t),
+        waveLine: mixRgb(a.waveLine, b.waveLine, t),
+    };
+};
+
+export const rgba = ([r, g, b]: RGB, alpha = 1) => `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
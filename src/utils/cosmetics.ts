@@ -0,0 +1,126 @@
+import { CosmeticKind, CosmeticsState, StoneSkin, TrailSkin } from '../types';
+import { isObject } from './guards';
+
+// Shop cosmetics: something to spend coins on once the upgrades are maxed
+
+export const STONE_SKINS: StoneSkin[] = [
+    { id: 'classic', name: 'Classic', price: 0, fill: '#fff', stroke: '#6366f1', label: '#6366f1', shape: 'circle', pattern: 'none' },
+    { id: 'river', name: 'River Rock', price: 300, fill: '#94a3b8', stroke: '#475569', label: '#1e293b', shape: 'circle', pattern: 'speckle' },
+    { id: 'lava', name: 'Lava', price: 800, fill: '#f97316', stroke: '#7f1d1d', label: '#fff7ed', shape: 'hexagon', pattern: 'stripes' },
+    { id: 'crystal', name: 'Crystal', price: 1200, fill: '#a5f3fc', stroke: '#0891b2', label: '#164e63', shape: 'diamond', pattern: 'ring' },
+    { id: 'duck', name: 'Rubber Duck', price: 1500, fill: '#fde68a', stroke: '#f59e0b', label: '#92400e', shape: 'circle', pattern: 'none', emoji: '🦆' },
+    { id: 'gold', name: 'Solid Gold', price: 2500, fill: '#facc15', stroke: '#a16207', label: '#713f12', shape: 'hexagon', pattern: 'ring' },
+];
+
+export const TRAIL_SKINS: TrailSkin[] = [
+    { id: 'indigo', name: 'Indigo', price: 0, colors: ['#6366f1'], count: 1 },
+    { id: 'ember', name: 'Embers', price: 250, colors: ['#f97316', '#facc15', '#ef4444'], count: 1 },
+    { id: 'frost', name: 'Frost', price: 400, colors: ['#e0f2fe', '#7dd3fc'], count: 2 },
+    { id: 'sparkle', name: 'Sparkle', price: 750, colors: ['#fde047', '#fff'], count: 2 },
+    { id: 'rainbow', name: 'Rainbow', price: 1000, colors: ['#ef4444', '#f59e0b', '#eab308', '#22c55e', '#3b82f6', '#a855f7'], count: 2 },
+];
+
+export const DEFAULT_COSMETICS: CosmeticsState = {
+    owned: ['classic', 'indigo'],
+    equipped: { skin: 'classic', trail: 'indigo' },
+};
+
+export const getSkin = (id: string) => STONE_SKINS.find(skin => skin.id === id) || STONE_SKINS[0];
+export const getTrail = (id: string) => TRAIL_SKINS.find(trail => trail.id === id) || TRAIL_SKINS[0];
+
+const catalog = (kind: CosmeticKind): { id: string }[] => (kind === 'skin' ? STONE_SKINS : TRAIL_SKINS);
+
+// Drops unknown ids and falls back to the free items for anything not owned
+export const validateCosmetics = (raw: unknown): CosmeticsState => {
+    const data: Record<string, unknown> = isObject(raw) ? raw : {};
+    const known = new Set([...STONE_SKINS, ...TRAIL_SKINS].map(item => item.id));
+    const owned = new Set(DEFAULT_COSMETICS.owned);
+    if (Array.isArray(data.owned)) {
+        data.owned.filter((id): id is string => typeof id === 'string' && known.has(id)).forEach(id => owned.add(id));
+    }
+    const equipped = { ...DEFAULT_COSMETICS.equipped };
+    const wearing: Record<string, unknown> = isObject(data.equipped) ? data.equipped : {};
+    for (const kind of ['skin', 'trail'] as CosmeticKind[]) {
+        const id = wearing[kind];
+        if (typeof id === 'string' && owned.has(id) && catalog(kind).some(item => item.id === id)) equipped[kind] = id;
+    }
+    return { owned: [...owned], equipped };
+};
+
+// --- Rendering ---
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, sides: number, radius: number, offset: number, squash: number) => {
+    for (let i = 0; i < sides; i++) {
+        const angle = offset + (i / sides) * Math.PI * 2;
+        const x = Math.cos(angle) * radius;
+        const y = Math.sin(angle) * radius * squash;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, skin: StoneSkin, radius: number, squash: number) => {
+    ctx.beginPath();
+    if (skin.shape === 'hexagon') tracePolygon(ctx, 6, radius, 0, squash);
+    else if (skin.shape === 'diamond') tracePolygon(ctx, 4, radius, -Math.PI / 2, squash);
+    else ctx.ellipse(0, 0, radius, radius * squash, 0, 0, Math.PI * 2);
+};
+
+const drawPattern = (ctx: CanvasRenderingContext2D, skin: StoneSkin, radius: number) => {
+    ctx.save();
+    ctx.clip();
+    ctx.strokeStyle = skin.stroke;
+    ctx.fillStyle = skin.stroke;
+    ctx.globalAlpha = 0.35;
+    if (skin.pattern === 'stripes') {
+        ctx.lineWidth = radius * 0.2;
+        for (let x = -radius * 2; x < radius * 2; x += radius * 0.5) {
+            ctx.beginPath();
+            ctx.moveTo(x, -radius);
+            ctx.lineTo(x + radius, radius);
+            ctx.stroke();
+        }
+    } else if (skin.pattern === 'speckle') {
+        // Fixed spots so the pattern doesn't flicker between frames
+        for (let i = 0; i < 9; i++) {
+            const angle = i * 2.4;
+            const dist = radius * (0.2 + ((i * 37) % 70) / 100);
+            ctx.beginPath();
+            ctx.arc(Math.cos(angle) * dist, Math.sin(angle) * dist, radius * 0.08, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    } else if (skin.pattern === 'ring') {
+        ctx.lineWidth = radius * 0.12;
+        ctx.beginPath();
+        ctx.arc(0, 0, radius * 0.6, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+// Draws a stone centred on the current origin; the caller handles position and rotation.
+// `squash` flattens it for stone types that aren't round (see StoneType.squash).
+export const drawStone = (ctx: CanvasRenderingContext2D, skin: StoneSkin, radius: number, value: number, squash = 1) => {
+    traceShape(ctx, skin, radius, squash);
+    ctx.fillStyle = skin.fill;
+    ctx.fill();
+    if (skin.pattern !== 'none') drawPattern(ctx, skin, radius);
+    traceShape(ctx, skin, radius, squash);
+    ctx.strokeStyle = skin.stroke;
+    ctx.lineWidth = Math.max(2, radius * 0.16);
+    ctx.stroke();
+
+    // Shrink the label to fit flat stones
+    const textScale = Math.min(1, squash * 1.6);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    if (skin.emoji) {
+        ctx.font = `${Math.round(radius * 1.1 * textScale)}px sans-serif`;
+        ctx.fillText(skin.emoji, 0, 0);
+    } else {
+        ctx.fillStyle = skin.label;
+        ctx.font = `bold ${Math.round(radius * 0.8 * textScale)}px "JetBrains Mono"`;
+        ctx.fillText(value.toString(), 0, 0);
+    }
+};
@@ -0,0 +1,25 @@
+import { PlayerStats } from '../types';
+import { hashString } from './rng';
+
+// Daily Challenge: everyone gets the same lake (seed) and the same stone (loadout) for a calendar day
+
+// Fixed loadout so upgrades bought in the shop don't decide the result
+export const DAILY_STATS: PlayerStats = {
+    value: 10,
+    weight: 1.4,
+    bounciness: 0.8,
+    aerodynamics: 0.995,
+    maxPower: 31,
+    spin: 0.25,
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local calendar day, e.g. "2026-10-19"
+export const getDailyKey = (date: Date = new Date()) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const isDailyKey = (key: unknown): key is string => typeof key === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(key);
+
+// Hash of the day key, so the seed is stable across machines
+export const getDailySeed = (key: string) => hashString(key);
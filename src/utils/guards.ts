@@ -0,0 +1,5 @@
+// Type guards for narrowing untrusted JSON (saves, replays, levels, sound pack manifests)
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
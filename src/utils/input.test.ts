@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { inputController } from './input';
+
+type Listener = (e: unknown) => void;
+const listeners: Record<string, Listener> = {};
+let pad: { connected: boolean; axes: number[]; buttons: { pressed: boolean; value: number }[] } | null = null;
+
+// A focused element matching `focus` (a selector), or the page itself
+const keyEvent = (type: string, code: string, focus = '') => {
+    const event = { code, repeat: false, prevented: false, target: { closest: (selector: string) => (focus && selector.includes(focus) ? {} : null) }, preventDefault: () => { event.prevented = true; } };
+    listeners[type](event);
+    return event.prevented;
+};
+const tap = (code: string, focus = '') => {
+    const prevented = keyEvent('keydown', code, focus);
+    keyEvent('keyup', code, focus);
+    return prevented;
+};
+
+const button = (value = 0) => ({ pressed: value > 0.5, value });
+const connectPad = () => {
+    pad = { connected: true, axes: [0, 0], buttons: Array.from({ length: 16 }, () => button()) };
+    return pad;
+};
+
+beforeEach(() => {
+    pad = null;
+    vi.stubGlobal('window', {
+        addEventListener: (type: string, listener: Listener) => { listeners[type] = listener; },
+        removeEventListener: (type: string) => { delete listeners[type]; },
+    });
+    vi.stubGlobal('navigator', { getGamepads: () => [pad] });
+    inputController.attach();
+});
+
+afterEach(() => {
+    inputController.detach();
+    vi.unstubAllGlobals();
+});
+
+describe('InputController keys', () => {
+    it('aims with the arrows and throws when Space is let go', () => {
+        inputController.poll('MENU', 0);
+        inputController.poll('AIMING', 0);
+        expect(inputController.getAimDrag()).toBeNull(); // Nothing to draw until the keys are used
+        keyEvent('keydown', 'ArrowUp');
+        inputController.poll('AIMING', 0.2);
+        const first = inputController.getAimDrag()!;
+        inputController.poll('AIMING', 0.2);
+        keyEvent('keyup', 'ArrowUp');
+        expect(inputController.getAimDrag()!.dy).toBeLessThan(first.dy);
+
+        keyEvent('keydown', 'Space');
+        expect(inputController.poll('AIMING', 0.2).launch).toBeNull();
+        keyEvent('keyup', 'Space');
+        expect(inputController.poll('AIMING', 0).launch).toEqual(inputController.getAimDrag());
+    });
+
+    it('dives on Space in the air', () => {
+        inputController.poll('FLYING', 0);
+        expect(tap('Space')).toBe(true);
+        expect(inputController.poll('FLYING', 0).dive).toBe(true);
+    });
+
+    it('plays again on Enter and steps through the shop with the arrows', () => {
+        inputController.poll('GAME_OVER', 0);
+        tap('NumpadEnter');
+        expect(inputController.poll('GAME_OVER', 0).confirm).toBe(true);
+        tap('ArrowDown');
+        expect(inputController.poll('GAME_OVER', 0).shopMove).toBe(1);
+        tap('ArrowLeft');
+        expect(inputController.poll('GAME_OVER', 0).shopMove).toBe(-1);
+    });
+
+    it('leaves keys alone where the screen does not use them', () => {
+        inputController.poll('GAME_OVER', 0);
+        expect(tap('Space')).toBe(false);
+        inputController.poll('MENU', 0);
+        expect(tap('ArrowDown')).toBe(false);
+    });
+
+    it('leaves Space and Enter to a focused button and every key to a text field', () => {
+        inputController.poll('AIMING', 0);
+        expect(tap('Space', 'button')).toBe(false);
+        expect(tap('ArrowUp', 'input')).toBe(false);
+        inputController.poll('GAME_OVER', 0);
+        expect(tap('Enter', 'button')).toBe(false);
+        expect(inputController.poll('GAME_OVER', 0).confirm).toBe(false);
+    });
+});
+
+describe('InputController gamepad', () => {
+    it('aims with the stick and throws when the trigger is let go', () => {
+        const gamepad = connectPad();
+        gamepad.axes = [1, -1];
+        gamepad.buttons[7] = button(0.8);
+        expect(inputController.poll('AIMING', 0).launch).toBeNull();
+        gamepad.buttons[7] = button(0);
+        const launch = inputController.poll('AIMING', 0).launch!;
+        expect(launch.dx).toBeGreaterThan(0);
+        expect(launch.dy).toBeLessThan(0);
+        expect(Math.hypot(launch.dx, launch.dy)).toBeCloseTo(0.8 * 200);
+    });
+
+    it('dives on A only when it goes down', () => {
+        const gamepad = connectPad();
+        inputController.poll('FLYING', 0);
+        gamepad.buttons[0] = button(1);
+        expect(inputController.poll('FLYING', 0).dive).toBe(true);
+        expect(inputController.poll('FLYING', 0).dive).toBe(false);
+    });
+
+    it('picks upgrades with the d-pad, buys with A and plays again with Start', () => {
+        const gamepad = connectPad();
+        inputController.poll('GAME_OVER', 0);
+        gamepad.buttons[13] = button(1);
+        expect(inputController.poll('GAME_OVER', 0).shopMove).toBe(1);
+        gamepad.buttons[13] = button(0);
+        gamepad.buttons[0] = button(1);
+        expect(inputController.poll('GAME_OVER', 0)).toMatchObject({ select: true, confirm: false });
+        gamepad.buttons[9] = button(1);
+        expect(inputController.poll('GAME_OVER', 0).confirm).toBe(true);
+    });
+});
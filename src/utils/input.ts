@@ -0,0 +1,204 @@
+import { GameState } from '../types';
+import { MAX_AIM_DIST } from './physics';
+
+// Keyboard and gamepad controls. Both steer one aim (an angle and a power) that turns into
+// the same drag vector a mouse throw makes, so launches replay exactly like dragged ones.
+// The game loop polls once per frame and acts on what comes back.
+
+export interface AimState {
+    angle: number; // Degrees above horizontal
+    power: number; // 0-1 of a full drag
+}
+
+export interface InputActions {
+    launch: { dx: number; dy: number } | null;
+    dive: boolean;
+    confirm: boolean; // Enter / Start: play again after a run
+    select: boolean; // Pad A after a run: buys the focused upgrade, or plays again
+    shopMove: number; // -1 / 1: step the shop focus back or forward after a run
+}
+
+const MIN_ANGLE = -15;
+const MAX_ANGLE = 80;
+const MIN_POWER = 0.1; // Shorter drags don't launch at all
+const ANGLE_SPEED = 45; // Degrees per second while an arrow is held
+const POWER_SPEED = 0.6; // Power per second while an arrow is held
+const CHARGE_SPEED = 0.8; // Power per second while Space is held
+
+// Standard gamepad mapping
+const PAD_DIVE = 0; // A / Cross
+const PAD_POWER = 7; // Right trigger
+const PAD_CONFIRM = 9; // Start
+const PAD_UP = 12; // D-pad
+const PAD_DOWN = 13;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+const STICK_DEADZONE = 0.3;
+const TRIGGER_PRESSED = 0.1;
+
+const ARROW_KEYS = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+const ENTER_KEYS = ['Enter', 'NumpadEnter'];
+
+// The keys each screen takes over; everywhere else they keep their browser behaviour
+const CONTROL_KEYS: Partial<Record<GameState['status'], string[]>> = {
+    AIMING: [...ARROW_KEYS, 'Space'],
+    FLYING: ['Space'],
+    GAME_OVER: [...ARROW_KEYS, ...ENTER_KEYS], // Arrows step through the shop
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const aimToDrag = (aim: AimState) => {
+    const dist = aim.power * MAX_AIM_DIST;
+    const angle = aim.angle * Math.PI / 180;
+    return { dx: Math.cos(angle) * dist, dy: -Math.sin(angle) * dist };
+};
+
+class InputController {
+    private aim: AimState = { angle: 30, power: 0.5 };
+    private aimActive = false; // The aim is only drawn once a key or the pad has touched it this turn
+    private held = new Set<string>();
+    private pressed = new Set<string>(); // Key presses since the last poll
+    private released = new Set<string>();
+    private charging = false;
+    private padButtons: boolean[] = [];
+    private triggerPeak = 0;
+    private status: GameState['status'] | null = null; // As of the last poll
+
+    // Focused text fields keep all their keys and a focused button or link keeps Space and
+    // Enter, so keyboard users can still press it (Enter on a shop upgrade buys it)
+    private onKeyDown = (e: KeyboardEvent) => {
+        if (!this.status || !CONTROL_KEYS[this.status]?.includes(e.code)) return;
+        const target = e.target as HTMLElement;
+        if (target.closest?.('input, select, textarea')) return;
+        if ((e.code === 'Space' || ENTER_KEYS.includes(e.code)) && target.closest?.('button, a, [role=button]')) return;
+        e.preventDefault(); // Arrows and Space would scroll the page
+        if (!e.repeat) this.pressed.add(e.code);
+        this.held.add(e.code);
+    };
+
+    private onKeyUp = (e: KeyboardEvent) => {
+        if (!this.held.has(e.code)) return;
+        e.preventDefault();
+        this.held.delete(e.code);
+        this.released.add(e.code);
+    };
+
+    // Keys let go while the window is in the background never send a keyup
+    private onBlur = () => {
+        this.held.clear();
+        this.charging = false;
+    };
+
+    public attach() {
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+        window.addEventListener('blur', this.onBlur);
+    }
+
+    public detach() {
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        window.removeEventListener('blur', this.onBlur);
+        this.onBlur();
+    }
+
+    // The drag vector to draw while aiming with keys or a pad, or null if they haven't been used
+    public getAimDrag() {
+        return this.aimActive ? aimToDrag(this.aim) : null;
+    }
+
+    public poll(status: GameState['status'], dt: number): InputActions {
+        const actions: InputActions = { launch: null, dive: false, confirm: false, select: false, shopMove: 0 };
+        this.status = status;
+        const pressed = this.pressed;
+        const released = this.released;
+        this.pressed = new Set();
+        this.released = new Set();
+        const pad = this.readGamepad();
+
+        if (status !== 'AIMING') {
+            this.aimActive = false;
+            this.charging = false;
+            this.triggerPeak = 0;
+        }
+
+        switch (status) {
+            case 'AIMING': {
+                const angleInput = (this.held.has('ArrowUp') ? 1 : 0) - (this.held.has('ArrowDown') ? 1 : 0);
+                const powerInput = (this.held.has('ArrowRight') ? 1 : 0) - (this.held.has('ArrowLeft') ? 1 : 0);
+                if (angleInput || powerInput) this.aimActive = true;
+                this.aim.angle = clamp(this.aim.angle + angleInput * ANGLE_SPEED * dt, MIN_ANGLE, MAX_ANGLE);
+                this.aim.power = clamp(this.aim.power + powerInput * POWER_SPEED * dt, MIN_POWER, 1);
+
+                // Space: hold to charge from the current power, release to throw
+                if (pressed.has('Space')) {
+                    this.charging = true;
+                    this.aimActive = true;
+                }
+                if (this.charging && this.held.has('Space')) {
+                    this.aim.power = Math.min(1, this.aim.power + CHARGE_SPEED * dt);
+                }
+                if (this.charging && released.has('Space')) {
+                    this.charging = false;
+                    actions.launch = aimToDrag(this.aim);
+                }
+
+                // Pad: the stick points the throw, the trigger sets power and letting go throws
+                if (pad) {
+                    if (Math.hypot(pad.stickX, pad.stickY) > STICK_DEADZONE) {
+                        this.aim.angle = clamp(Math.atan2(-pad.stickY, Math.abs(pad.stickX)) * 180 / Math.PI, MIN_ANGLE, MAX_ANGLE);
+                        this.aimActive = true;
+                    }
+                    if (pad.trigger > TRIGGER_PRESSED) {
+                        this.triggerPeak = Math.max(this.triggerPeak, pad.trigger);
+                        this.aim.power = clamp(pad.trigger, MIN_POWER, 1);
+                        this.aimActive = true;
+                    } else if (this.triggerPeak > 0) {
+                        this.aim.power = clamp(this.triggerPeak, MIN_POWER, 1);
+                        this.triggerPeak = 0;
+                        actions.launch = aimToDrag(this.aim);
+                    }
+                }
+                break;
+            }
+
+            case 'FLYING':
+                actions.dive = pressed.has('Space') || !!pad?.pressed.includes(PAD_DIVE);
+                break;
+
+            case 'GAME_OVER': {
+                const padPressed = pad?.pressed ?? [];
+                actions.confirm = ENTER_KEYS.some(key => pressed.has(key)) || padPressed.includes(PAD_CONFIRM);
+                actions.select = padPressed.includes(PAD_DIVE);
+                const back = pressed.has('ArrowUp') || pressed.has('ArrowLeft') || padPressed.includes(PAD_UP) || padPressed.includes(PAD_LEFT);
+                const forward = pressed.has('ArrowDown') || pressed.has('ArrowRight') || padPressed.includes(PAD_DOWN) || padPressed.includes(PAD_RIGHT);
+                actions.shopMove = (forward ? 1 : 0) - (back ? 1 : 0);
+                break;
+            }
+        }
+        return actions;
+    }
+
+    // First connected pad, with the buttons that went down since the last poll
+    private readGamepad() {
+        const pad = typeof navigator !== 'undefined' && navigator.getGamepads
+            ? navigator.getGamepads().find(p => p?.connected)
+            : null;
+        if (!pad) {
+            this.padButtons = [];
+            return null;
+        }
+        const buttons = pad.buttons.map(button => button.pressed);
+        const pressed = buttons.flatMap((down, i) => (down && !this.padButtons[i] ? [i] : []));
+        this.padButtons = buttons;
+        return {
+            stickX: pad.axes[0] ?? 0,
+            stickY: pad.axes[1] ?? 0,
+            trigger: pad.buttons[PAD_POWER]?.value ?? 0,
+            pressed,
+        };
+    }
+}
+
+export const inputController = new InputController();
@@ -0,0 +1,53 @@
+import { LeaderboardCategory, LeaderboardEntry, RunRecord, SaveData } from '../types';
+import { migrateSave } from './save';
+
+// Client for the shared leaderboard server (server/index.ts), proxied under /api in dev
+const API_BASE = '/api';
+
+export interface SubmitResult {
+    entry: LeaderboardEntry;
+    ranks: Record<LeaderboardCategory, number>;
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const res = await fetch(`${API_BASE}${path}`, init);
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+        throw new Error(body?.error || `Leaderboard request failed (${res.status})`);
+    }
+    return body as T;
+};
+
+// Pass a day key to get that day's Daily Challenge table instead of the all-time one
+export const fetchLeaderboard = async (by: LeaderboardCategory, limit = 10, daily?: string) => {
+    const dailyParam = daily ? `&daily=${daily}` : '';
+    const data = await request<{ entries: LeaderboardEntry[] }>(`/leaderboard?by=${by}&limit=${limit}${dailyParam}`);
+    return data.entries;
+};
+
+export const submitRun = (name: string, run: RunRecord) =>
+    request<SubmitResult>('/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, run }),
+    });
+
+export interface SyncResult {
+    save: SaveData;
+    source: 'local' | 'remote'; // Which copy was newer and is now on both sides
+}
+
+// Syncs one save under a player name: the server's copy is taken if it is newer, otherwise ours is pushed
+export const syncSave = async (name: string, local: SaveData): Promise<SyncResult> => {
+    const path = `/saves/${encodeURIComponent(name)}`;
+    const remote = await request<{ save: SaveData }>(path).catch(() => null); // 404 until the first push
+    if (remote && remote.save.updatedAt > local.updatedAt) {
+        return { save: migrateSave(remote.save), source: 'remote' };
+    }
+    const pushed = await request<{ save: SaveData }>(path, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ save: local }),
+    });
+    return { save: pushed.save, source: 'local' };
+};
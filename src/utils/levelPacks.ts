@@ -0,0 +1,26 @@
+import { LevelDef, LevelPack } from '../types';
+import { parseLevelPack } from './levels';
+import firstSkips from '../levels/first-skips.json';
+import wildWater from '../levels/wild-water.json';
+
+// The bundled campaign, in play order. Packs are parsed on load so a broken level fails loudly.
+export const LEVEL_PACKS: LevelPack[] = [firstSkips, wildWater].map(parseLevelPack);
+
+// Every level in campaign order; each unlocks the next
+export const CAMPAIGN: LevelDef[] = LEVEL_PACKS.flatMap(pack => pack.levels);
+
+const ids = new Set<string>();
+for (const level of CAMPAIGN) {
+    if (ids.has(level.id)) throw new Error(`Duplicate level id "${level.id}"`);
+    ids.add(level.id);
+}
+
+export const getLevel = (id: string) => CAMPAIGN.find(level => level.id === id) || null;
+
+export const getNextLevel = (id: string) => {
+    const index = CAMPAIGN.findIndex(level => level.id === id);
+    return index >= 0 ? CAMPAIGN[index + 1] || null : null;
+};
+
+// Only the bundled levels themselves earn stars and coins; edited copies are test plays
+export const isCampaignLevel = (level: LevelDef) => CAMPAIGN.includes(level);
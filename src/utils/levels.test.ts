@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getLevelStars, parseLevel } from './levels';
+
+const raw = {
+    id: 'test',
+    name: 'Test',
+    start: { x: 100, y: 420 },
+    goal: 100,
+    par: 1000,
+    targets: [{ type: 'NORMAL', x: 300, value: 2 }, { type: 'PORTAL', x: 400, value: 1, exitX: 700 }],
+};
+
+describe('parseLevel', () => {
+    it('fills in the optional fields', () => {
+        const level = parseLevel(raw);
+        expect(level.biome).toBe('lake');
+        expect(level.description).toBe('');
+        expect(level.targets[1].exitX).toBe(700);
+    });
+
+    it('names the level and field that is wrong', () => {
+        expect(() => parseLevel({ ...raw, id: 'Bad Id' })).toThrow('Level id');
+        expect(() => parseLevel({ ...raw, goal: 0 })).toThrow('Level "test": "goal"');
+        expect(() => parseLevel({ ...raw, targets: [{ type: 'LAVA', x: 1, value: 1 }] })).toThrow('unknown target type "LAVA"');
+        expect(() => parseLevel({ ...raw, targets: [{ type: 'toString', x: 1, value: 1 }] })).toThrow('unknown target type "toString"');
+        expect(() => parseLevel({ ...raw, targets: [{ type: '__proto__', x: 1, value: 1 }] })).toThrow('unknown target type "__proto__"');
+        expect(() => parseLevel({ ...raw, targets: [...raw.targets].reverse() })).toThrow('ordered by x');
+        expect(() => parseLevel({ ...raw, targets: [{ type: 'PORTAL', x: 400, value: 1, exitX: 300 }] })).toThrow('exitX');
+    });
+
+    it('awards stars against par', () => {
+        const level = parseLevel(raw);
+        expect(getLevelStars(level, 5000, false)).toBe(0);
+        expect(getLevelStars(level, 0, true)).toBe(1);
+        expect(getLevelStars(level, 500, true)).toBe(2);
+        expect(getLevelStars(level, 1000, true)).toBe(3);
+    });
+});
@@ -0,0 +1,186 @@
+import { BiomeId, LevelDef, LevelPack, LevelProgress, LevelTarget, SurfaceNumber, Vector2, Weather } from '../types';
+import { TARGET_TYPES, getTargetRadius, isTargetType } from './targets';
+import { isNumber, isObject } from './guards';
+import { BIOMES } from './biomes';
+import { CALM_WEATHER } from './weather';
+
+// Handcrafted levels are plain JSON so they can be bundled, shared and edited by hand.
+// Parsing throws a readable error naming the level and field, like parseReplay does for runs.
+
+export const MAX_STARS = 3;
+const TWO_STAR_PAR = 0.5; // Share of par that earns the second star
+
+const isBiomeId = (id: unknown): id is BiomeId => BIOMES.some(biome => biome.id === id);
+
+const optionalNumber = (raw: Record<string, unknown>, key: string, where: string, min: number) => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (!isNumber(value) || value < min) throw new Error(`${where}: "${key}" must be a number of at least ${min}`);
+    return value;
+};
+
+const parseTarget = (raw: unknown, where: string): LevelTarget => {
+    if (!isObject(raw)) throw new Error(`${where} is not an object`);
+    if (!isTargetType(raw.type)) throw new Error(`${where}: unknown target type "${raw.type}"`);
+    if (!isNumber(raw.x)) throw new Error(`${where} is missing its x`);
+    if (!isNumber(raw.value) || raw.value < 1) throw new Error(`${where}: "value" must be at least 1`);
+
+    const target: LevelTarget = { type: raw.type, x: raw.x, value: Math.floor(raw.value) };
+    for (const [key, min] of [['weight', 0.1], ['radius', 5], ['hits', 1], ['moveSpeed', 0], ['moveRange', 0]] as const) {
+        const value = optionalNumber(raw, key, where, min);
+        if (value !== undefined) target[key] = key === 'hits' ? Math.floor(value) : value;
+    }
+    if (raw.exitX !== undefined) {
+        if (!isNumber(raw.exitX) || raw.exitX <= target.x) throw new Error(`${where}: "exitX" must be past the portal's x`);
+        target.exitX = raw.exitX;
+    }
+    return target;
+};
+
+const parseWeather = (raw: unknown, where: string): Weather => {
+    if (raw === undefined) return { ...CALM_WEATHER };
+    if (!isObject(raw)) throw new Error(`${where}: "weather" is not an object`);
+    const weather = { ...CALM_WEATHER };
+    for (const key of Object.keys(CALM_WEATHER) as (keyof Weather)[]) {
+        if (raw[key] === undefined) continue;
+        if (!isNumber(raw[key])) throw new Error(`${where}: weather "${key}" is not a number`);
+        weather[key] = key === 'wind' ? raw[key] : Math.min(1, Math.max(0, raw[key]));
+    }
+    return weather;
+};
+
+export const parseLevel = (raw: unknown): LevelDef => {
+    if (!isObject(raw)) throw new Error('Level is not an object');
+    if (typeof raw.id !== 'string' || !/^[a-z0-9-]+$/.test(raw.id)) throw new Error('Level id must be lowercase letters, digits and dashes');
+    const where = `Level "${raw.id}"`;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`${where} has no name`);
+    if (!isObject(raw.start) || !isNumber(raw.start.x) || !isNumber(raw.start.y)) throw new Error(`${where} is missing its start position`);
+    if (!isNumber(raw.goal) || raw.goal <= 0) throw new Error(`${where}: "goal" must be a positive distance`);
+    if (!isNumber(raw.par) || raw.par < 0) throw new Error(`${where}: "par" must be a score`);
+    if (raw.biome !== undefined && !isBiomeId(raw.biome)) throw new Error(`${where}: unknown biome "${raw.biome}"`);
+    if (!Array.isArray(raw.targets) || raw.targets.length === 0) throw new Error(`${where} has no targets`);
+
+    const targets = raw.targets.map((target: unknown, i: number) => parseTarget(target, `${where} target ${i + 1}`));
+    for (let i = 1; i < targets.length; i++) {
+        if (targets[i].x < targets[i - 1].x) throw new Error(`${where}: targets must be ordered by x`);
+    }
+
+    return {
+        id: raw.id,
+        name: raw.name.trim(),
+        description: typeof raw.description === 'string' ? raw.description : '',
+        start: { x: raw.start.x, y: raw.start.y },
+        goal: raw.goal,
+        par: Math.floor(raw.par),
+        biome: isBiomeId(raw.biome) ? raw.biome : 'lake',
+        weather: parseWeather(raw.weather, where),
+        targets,
+    };
+};
+
+export const parseLevelPack = (raw: unknown): LevelPack => {
+    if (!isObject(raw)) throw new Error('Level pack is not an object');
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string') throw new Error('Level pack is missing its id or name');
+    if (!Array.isArray(raw.levels) || raw.levels.length === 0) throw new Error(`Level pack "${raw.id}" has no levels`);
+    return {
+        id: raw.id,
+        name: raw.name,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        levels: raw.levels.map(parseLevel),
+    };
+};
+
+export const serializeLevel = (level: LevelDef) => JSON.stringify(level, null, 2);
+
+// Starting point for the level editor: one target and a short goal
+export const createBlankLevel = (start: Vector2): LevelDef => ({
+    id: 'my-level',
+    name: 'My Level',
+    description: '',
+    start: { ...start },
+    goal: 80,
+    par: 1000,
+    biome: 'lake',
+    weather: { ...CALM_WEATHER },
+    targets: [{ type: 'NORMAL', x: start.x + 200, value: 1 }],
+});
+
+// Puts targets back in x order after an edit, and reports where the target at `index` ended up
+export const sortLevelTargets = (level: LevelDef, index: number | null) => {
+    const order = level.targets.map((_, i) => i).sort((a, b) => level.targets[a].x - level.targets[b].x);
+    return {
+        level: { ...level, targets: order.map(i => level.targets[i]) },
+        index: index === null ? null : order.indexOf(index),
+    };
+};
+
+// Builds the level's targets, filling in the per-type defaults the generator also uses
+export const createLevelTargets = (level: LevelDef): SurfaceNumber[] =>
+    level.targets.map((target, i) => {
+        const behavior = TARGET_TYPES[target.type];
+        const hits = behavior.hits > 1 ? target.hits ?? behavior.hits : 1;
+        const num: SurfaceNumber = {
+            id: `${level.id}-${i}`,
+            x: target.x,
+            y: 0,
+            initialY: 0,
+            value: target.value,
+            weight: target.weight ?? behavior.weight,
+            radius: target.radius ?? getTargetRadius(target.value),
+            color: behavior.color,
+            type: target.type,
+            sunk: false,
+            hitsRequired: hits,
+            maxHits: hits,
+            isMoving: false,
+            moveSpeed: 0,
+            moveRange: 0,
+            opacity: 1,
+        };
+        behavior.init?.(num);
+        // Any target can be made to move
+        if (target.moveSpeed !== undefined || target.moveRange !== undefined) num.isMoving = true;
+        if (num.isMoving) {
+            num.moveSpeed = target.moveSpeed ?? 0.03;
+            num.moveRange = target.moveRange ?? 50;
+        }
+        if (target.exitX !== undefined) num.exitX = target.exitX;
+        return num;
+    });
+
+// One star for reaching the goal, one for half of par and one for par
+export const getLevelStars = (level: LevelDef, score: number, completed: boolean) => {
+    if (!completed) return 0;
+    let stars = 1;
+    if (score >= level.par * TWO_STAR_PAR) stars++;
+    if (score >= level.par) stars++;
+    return stars;
+};
+
+export const formatStars = (stars: number) => '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+
+// Levels open one after another: each needs the one before it completed
+export const isLevelUnlocked = (levels: LevelDef[], progress: Record<string, LevelProgress>, id: string) => {
+    const index = levels.findIndex(level => level.id === id);
+    if (index <= 0) return index === 0;
+    return (progress[levels[index - 1].id]?.stars ?? 0) > 0;
+};
+
+// Keeps the better of two results for one level
+export const mergeLevelProgress = (previous: LevelProgress | undefined, stars: number, score: number): LevelProgress => ({
+    stars: Math.max(previous?.stars ?? 0, stars),
+    bestScore: Math.max(previous?.bestScore ?? 0, score),
+});
+
+export const validateLevelProgress = (raw: unknown): Record<string, LevelProgress> => {
+    const progress: Record<string, LevelProgress> = {};
+    if (!isObject(raw)) return progress;
+    for (const [id, entry] of Object.entries(raw)) {
+        if (!isObject(entry)) continue;
+        progress[id] = {
+            stars: isNumber(entry.stars) ? Math.min(MAX_STARS, Math.max(0, Math.floor(entry.stars))) : 0,
+            bestScore: isNumber(entry.bestScore) && entry.bestScore >= 0 ? entry.bestScore : 0,
+        };
+    }
+    return progress;
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsEvent } from '../types';
+import { GRAVITY } from './gameUtils';
+import { DEFAULT_PLAYER_STATS, PhysicsWorld, getMaxSkipAngle, getSpinLift } from './physics';
+import { STONE_TYPES } from './stones';
+import { getWeather } from './weather';
+import { getBiome } from './biomes';
+import { hitFirstTarget, lake, playRun, touchWater } from './testUtils';
+
+const FAR_TARGET = [{ type: 'NORMAL' as const, x: 20000, value: 1 }];
+
+// Steady flight over open water for `steps` steps
+const fly = (world: PhysicsWorld, steps: number) => {
+    world.launch(200, -120);
+    for (let i = 0; i < steps; i++) world.step();
+    return world;
+};
+
+const landed = (events: PhysicsEvent[]) => events.find(e => e.type === 'waterSkip' || e.type === 'float' || e.type === 'sink')?.type;
+
+describe('PhysicsWorld', () => {
+    it('plays the same run from the same seed and inputs', () => {
+        const a = playRun(new PhysicsWorld(42, DEFAULT_PLAYER_STATS));
+        const b = playRun(new PhysicsWorld(42, DEFAULT_PLAYER_STATS));
+        expect(a.status).toBe('GAME_OVER');
+        expect(b.tick).toBe(a.tick);
+        expect({ score: b.score, distance: b.distance, skips: b.skips }).toEqual({ score: a.score, distance: a.distance, skips: a.skips });
+        expect(b.inputs).toEqual(a.inputs);
+    });
+
+    it('skips a shallow throw off the water', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'NORMAL', x: 20000, value: 1 }]));
+        expect(world.launch(200, -40)).toBe(true);
+        const events: PhysicsEvent[] = [];
+        while (world.status === 'FLYING' && !events.some(e => e.type === 'waterSkip')) events.push(...world.step());
+        expect(events.some(e => e.type === 'waterSkip')).toBe(true);
+        expect(world.status).toBe('FLYING');
+    });
+
+    it('smashes a target much lighter than the hit', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'NORMAL', x: 400, value: 1, weight: 0.1 }]));
+        const hit = hitFirstTarget(world).find(e => e.type === 'targetHit');
+        expect(hit).toMatchObject({ type: 'targetHit', isSmash: true });
+        expect(world.surface[0].sunk).toBe(true);
+        expect(world.status).toBe('FLYING');
+    });
+
+    it('sinks on a target too heavy to move', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'NORMAL', x: 400, value: 99, weight: 10 }]));
+        const events = hitFirstTarget(world);
+        expect(events.some(e => e.type === 'sink')).toBe(true);
+        expect(world.status).toBe('SINKING');
+    });
+});
+
+describe('spin and entry angle', () => {
+    it('lets spin and calm water buy a steeper skip', () => {
+        expect(getMaxSkipAngle(0.5)).toBeGreaterThan(getMaxSkipAngle(0));
+        expect(getMaxSkipAngle(0, 1)).toBeLessThan(getMaxSkipAngle(0));
+        expect(getSpinLift(DEFAULT_PLAYER_STATS, STONE_TYPES.disc, 0.5)).toBeGreaterThan(getSpinLift(DEFAULT_PLAYER_STATS, STONE_TYPES.pebble, 0.5));
+        expect(getSpinLift(DEFAULT_PLAYER_STATS, STONE_TYPES.pebble, 0)).toBe(0);
+    });
+
+    it('sinks a steep entry without spin and skips it with full spin', () => {
+        const steep = { vx: 10, vy: 8.4 }; // About 40 degrees
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), steep.vx, steep.vy, 0))).toBe('sink');
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), steep.vx, steep.vy, 0.5))).toBe('waterSkip');
+    });
+});
+
+describe('weather', () => {
+    it('rolls the same conditions for the same seed and zone', () => {
+        expect(getWeather(5, 2)).toEqual(getWeather(5, 2));
+        expect(getWeather(5, 2)).not.toEqual(getWeather(6, 2));
+    });
+
+    it('pushes a flying stone with the wind', () => {
+        const calm = fly(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), 30);
+        const windy = fly(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET, { weather: { wind: 0.05 } })), 30);
+        expect(windy.player.x).toBeGreaterThan(calm.player.x);
+    });
+
+    it('takes skip angle away on choppy water', () => {
+        const entry = { vx: 10, vy: 4 }; // About 25 degrees once gravity has pulled
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), entry.vx, entry.vy))).toBe('waterSkip');
+        const choppy = lake(FAR_TARGET, { weather: { chop: 1 } });
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', choppy), entry.vx, entry.vy))).toBe('sink');
+    });
+});
+
+describe('biomes', () => {
+    it('switches biome at its start distance', () => {
+        expect(getBiome(0).id).toBe('lake');
+        expect(getBiome(4999).id).toBe('lake');
+        expect(getBiome(5000).id).toBe('rapids');
+        expect(getBiome(20000).id).toBe('lava');
+    });
+
+    it('lets ice take a steeper skip than the lake', () => {
+        const entry = { vx: 10, vy: 7 }; // About 35 degrees
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), entry.vx, entry.vy))).toBe('sink');
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET, { biome: 'frozen' })), entry.vx, entry.vy))).toBe('waterSkip');
+    });
+
+    it('sinks a gentle landing on lava that would float on the lake', () => {
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET)), 1, 1))).toBe('float');
+        expect(landed(touchWater(new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET, { biome: 'lava' })), 1, 1))).toBe('sink');
+    });
+
+    it('carries a skipping stone downstream in the rapids', () => {
+        const still = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET));
+        const rapids = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET, { biome: 'rapids' }));
+        touchWater(still, 10, 3);
+        touchWater(rapids, 10, 3);
+        expect(rapids.player.vx - still.player.vx).toBeCloseTo(1.5);
+    });
+});
+
+describe('power-ups', () => {
+    it('only lightens the fall while low gravity runs', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET));
+        world.effects.push({ type: 'lowGravity', remaining: 600, duration: 600 });
+        expect(world.getGravity(1)).toBeCloseTo(GRAVITY * 0.6);
+        expect(world.getGravity(-1)).toBe(GRAVITY);
+    });
+
+    it('never changes the stone\'s base stats', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake(FAR_TARGET));
+        world.effects.push(
+            { type: 'lowGravity', remaining: 60, duration: 60 },
+            { type: 'doubleScore', remaining: 60, duration: 60 },
+            { type: 'shield', remaining: 60, duration: 60 },
+        );
+        fly(world, 120);
+        expect(world.effects.map(effect => effect.type)).not.toContain('lowGravity');
+        expect(world.stats).toEqual(DEFAULT_PLAYER_STATS);
+    });
+
+    it('doubles the points of a hit while 2x score runs', () => {
+        const points = (withEffect: boolean) => {
+            const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'NORMAL', x: 400, value: 1, weight: 0.1 }]));
+            if (withEffect) world.effects.push({ type: 'doubleScore', remaining: 600, duration: 600 });
+            const hit = hitFirstTarget(world).find(e => e.type === 'targetHit');
+            return hit?.type === 'targetHit' ? hit.points : 0;
+        };
+        expect(points(false)).toBeGreaterThan(0);
+        expect(points(true)).toBe(points(false) * 2);
+    });
+});
@@ -0,0 +1,580 @@
+import { PlayerStats, SurfaceNumber, PlayerBody, PhysicsEvent, RunStatus, RunInput, StoneType, StoneTypeId, Weather, Biome, LevelDef, Vector2, PowerUpPickup, ActivePowerUp } from '../types';
+import { GRAVITY, AIR_RESISTANCE, CANVAS_WIDTH, CANVAS_HEIGHT, SURFACE_Y, POWER_SCALE, randomRange } from './gameUtils';
+import { createRng, Rng } from './rng';
+import { STONE_TYPES, getStoneType } from './stones';
+import { getWaveScale, getWeather, getWeatherZone } from './weather';
+import { BIOMES, getBiome, getBiomeById } from './biomes';
+import { createLevelTargets } from './levels';
+import { SOLID_OPACITY, TARGET_TYPES, TargetHit, generateSurfaceNumber } from './targets';
+import { POWER_UPS, POWER_UP_IDS } from './powerups';
+
+// Headless, deterministic simulation of a run. No React, canvas or audio in here:
+// the same seed, stats and inputs always produce the same run.
+
+export const START_X = 100;
+export const START_Y = SURFACE_Y - 30; // Sit on top of plank (plank is at surfaceY - 10)
+
+// The simulation always advances in fixed steps, whatever the display refresh rate.
+// Per-step velocity changes below are tuned for this step length.
+export const FIXED_DT = 1 / 60; // Seconds per step
+export const TIME_RATE = 3; // Animation clock units per second (bobbing, ghosts, waves)
+
+export const MAX_AIM_DIST = 200; // Drag length for full power
+const STOP_STEPS = Math.round(0.5 / FIXED_DT); // Half a second of stillness before the stone may be shot again
+const GENERATION_AHEAD = CANVAS_WIDTH; // Keep targets generated a screen ahead of the stone
+const MAX_SURFACE_NUMBERS = 50;
+
+// Spin: set at launch, it slowly bleeds off in the air and a chunk is spent on every bounce.
+// A spinning stone gets lift and can hit the water at a steeper angle and still skip.
+const FULL_SPIN = 0.5; // Spin (rad per step) that counts as full spin
+const SPIN_LIFT = 0.1; // Share of gravity any stone cancels at full spin
+const SPIN_AIR_DRAG = 0.995;
+const SPIN_KEPT_ON_SKIP = 0.85;
+const SPIN_KEPT_ON_BOUNCE = 0.7;
+const SKIP_ANGLE = 30; // Steepest water entry (degrees below horizontal) that skips with no spin
+const SPIN_SKIP_ANGLE = 20; // Extra degrees allowed at full spin
+const CHOP_SKIP_ANGLE = 12; // Degrees taken away on the roughest water
+const MIN_SKIP_SPEED = 3;
+const MAX_SKIP_FRICTION = 0.99; // A skip never speeds the stone up on its own
+
+// Power-ups: one in POWER_UP_CHANCE generated targets gets a pickup floating somewhere above it
+const POWER_UP_CHANCE = 0.05;
+export const POWER_UP_RADIUS = 22;
+const COIN_PULL_RANGE = 300; // px
+
+// Stats of the starting pebble with no upgrades bought
+export const DEFAULT_PLAYER_STATS: PlayerStats = { ...STONE_TYPES.pebble.stats };
+
+export const createPlayerBody = (stats: PlayerStats, stone: StoneType = STONE_TYPES.pebble, start: Vector2 = { x: START_X, y: START_Y }): PlayerBody => ({
+    x: start.x,
+    y: start.y,
+    vx: 0,
+    vy: 0,
+    radius: (20 + (stats.weight * 5)) * stone.radiusScale, // Scale size with weight
+    rotation: 0,
+    vr: 0,
+});
+
+// Vertical offset of a target from the surface line (bobbing plus movement); choppy water bobs harder
+export const getTargetOffsetY = (num: SurfaceNumber, time: number, weather?: Weather) => {
+    let offset = num.y + Math.sin(time + num.x) * 3 * (weather ? getWaveScale(weather) : 1);
+    if (num.isMoving) {
+        offset += Math.sin(time * 2 + num.x) * (num.moveRange || 50);
+    }
+    return offset;
+};
+
+// 0-1, how much of the spin benefits a stone spinning at `vr` gets
+const spinFactor = (vr: number) => Math.min(1, Math.abs(vr) / FULL_SPIN);
+
+// Upward speed per step that spin gives back against gravity
+export const getSpinLift = (stats: PlayerStats, stone: StoneType, vr: number) =>
+    GRAVITY * (stats.weight || 1.0) * (SPIN_LIFT + stone.spinLift) * spinFactor(vr);
+
+// Steepest entry angle (degrees below horizontal) that still skips at this spin and chop
+export const getMaxSkipAngle = (vr: number, chop = 0) => SKIP_ANGLE + SPIN_SKIP_ANGLE * spinFactor(vr) - CHOP_SKIP_ANGLE * chop;
+
+// Turns a drag vector (start minus current pointer position) into a launch velocity
+export const computeLaunchVelocity = (dx: number, dy: number, maxPower: number) => {
+    const dist = Math.sqrt(dx*dx + dy*dy);
+    const isPerfect = dist >= MAX_AIM_DIST * 0.95;
+
+    let vx = dx * POWER_SCALE;
+    let vy = dy * POWER_SCALE;
+
+    // Force a minimum upward angle for horizontal-ish drags
+    if (Math.abs(dy) < dx * 0.2) {
+        vy = -Math.abs(dx * 0.1);
+    }
+
+    const speed = Math.sqrt(vx*vx + vy*vy);
+    if (speed > maxPower) {
+        const scale = maxPower / speed;
+        vx *= scale;
+        vy *= scale;
+    }
+
+    if (isPerfect) {
+        vx *= 1.2;
+        vy *= 1.2;
+    }
+
+    if (vx < 2) vx = 2;
+
+    return { vx, vy, isPerfect };
+};
+
+export class PhysicsWorld {
+    public readonly seed: number;
+    public stats: PlayerStats;
+    public readonly stone: StoneType;
+    public readonly level: LevelDef | null; // Handcrafted level, or null for the endless lake
+    public readonly start: Vector2;
+    public player: PlayerBody;
+    public surface: SurfaceNumber[] = [];
+    public pickups: PowerUpPickup[] = [];
+    public effects: ActivePowerUp[] = [];
+    public status: RunStatus = 'AIMING';
+    public weather: Weather;
+    public biome: Biome = BIOMES[0];
+    public time = 0;
+    public tick = 0;
+
+    // Run totals
+    public score = 0;
+    public skips = 0;
+    public combo = 0;
+    public currency = 0; // Earned during this run
+    public distance = 0;
+    public completed = false; // Reached the level's goal
+
+    // Every accepted input, so the run can be replayed from the seed
+    public inputs: RunInput[] = [];
+
+    private rng: Rng;
+    private weatherZone = 0;
+    private stoppedSteps = 0;
+    private events: PhysicsEvent[] = [];
+
+    constructor(seed: number, stats: PlayerStats, stone: StoneTypeId = 'pebble', level: LevelDef | null = null) {
+        this.seed = seed;
+        this.stats = { ...stats };
+        this.stone = getStoneType(stone);
+        this.level = level;
+        this.start = level ? { ...level.start } : { x: START_X, y: START_Y };
+        this.rng = createRng(seed);
+        // A level keeps its own biome and weather the whole way
+        this.weather = level ? { ...level.weather } : getWeather(seed, 0);
+        if (level) this.biome = getBiomeById(level.biome);
+        this.player = createPlayerBody(this.stats, this.stone, this.start);
+        this.initSurface();
+    }
+
+    public getTargetY(num: SurfaceNumber) {
+        return SURFACE_Y + getTargetOffsetY(num, this.time, this.weather);
+    }
+
+    // Product of one power-up modifier over every active effect (1 with none)
+    public getEffectScale(key: 'gravityScale' | 'scoreScale') {
+        return this.effects.reduce((scale, effect) => scale * (POWER_UPS[effect.type][key] ?? 1), 1);
+    }
+
+    // Downward speed gained per step at this vertical speed. Low gravity only slows the fall,
+    // so the stone glides in flat instead of climbing over everything
+    public getGravity(vy: number) {
+        return GRAVITY * (this.stats.weight || 1.0) * (vy > 0 ? this.getEffectScale('gravityScale') : 1);
+    }
+
+    // Lets target behaviors report what they did
+    public emit(event: PhysicsEvent) {
+        this.events.push(event);
+    }
+
+    public getBiomeAt(x: number) {
+        return this.level ? this.biome : getBiome(x);
+    }
+
+    private initSurface() {
+        if (this.level) {
+            this.surface = createLevelTargets(this.level);
+            return;
+        }
+        const numbers: SurfaceNumber[] = [];
+        for (let i = 0; i < 20; i++) {
+            const x = 300 + i * 80;
+            numbers.push(generateSurfaceNumber(x, 1, this.rng, getBiome(x).extraTargets));
+        }
+        this.surface = numbers;
+    }
+
+    // Returns false if the drag was too short or pointed the wrong way
+    public launch(dx: number, dy: number) {
+        if (this.status !== 'AIMING') return false;
+        const dist = Math.sqrt(dx*dx + dy*dy);
+        if (dist < 10 || dx < 0) return false;
+
+        const { vx, vy, isPerfect } = computeLaunchVelocity(dx, dy, this.stats.maxPower);
+        const p = this.player;
+        p.vx = vx;
+        p.vy = vy;
+        p.vr = this.stats.spin;
+
+        this.inputs.push({ tick: this.tick, type: 'launch', dx, dy });
+        this.events.push({ type: 'launch', x: p.x, y: p.y, vx, vy, isPerfect });
+        this.setStatus('FLYING');
+        return true;
+    }
+
+    public dive() {
+        if (this.status !== 'FLYING') return false;
+        const p = this.player;
+        p.vy += 15; // Smash down
+        this.inputs.push({ tick: this.tick, type: 'dive' });
+        this.events.push({ type: 'dive', x: p.x, y: p.y });
+        return true;
+    }
+
+    // Advances the simulation by one fixed step and returns everything that happened
+    public step(): PhysicsEvent[] {
+        this.tick++;
+        this.time += TIME_RATE * FIXED_DT;
+
+        const status = this.status;
+        if (status === 'FLYING' || status === 'SINKING') {
+            const p = this.player;
+
+            if (status === 'FLYING') {
+                this.applyFlight(p);
+            }
+
+            // Movement
+            p.x += p.vx;
+            p.y += p.vy;
+
+            if (!this.level) {
+                this.generateSurface(p);
+                this.updateWeather(p);
+                this.updateBiome(p);
+            }
+
+            if (status === 'FLYING') {
+                this.collectPowerUps(p);
+                this.updateEffects();
+                const hitTarget = this.checkTargets(p);
+                // Check Water Collision (Only if we didn't hit a target)
+                if (!hitTarget && p.y + p.radius >= SURFACE_Y) {
+                    this.checkWater(p);
+                }
+                this.distance = Math.floor(p.x / 10);
+                if (this.level && this.distance >= this.level.goal) {
+                    this.completed = true;
+                    this.setStatus('GAME_OVER');
+                }
+            } else {
+                // Sinking
+                p.vy += 0.1; // Slow gravity underwater
+                p.vx *= 0.9;
+                if (p.y > CANVAS_HEIGHT + 100 || Math.abs(p.vx) < 0.1) {
+                    this.setStatus('GAME_OVER');
+                }
+            }
+        }
+
+        const events = this.events;
+        this.events = [];
+        return events;
+    }
+
+    private setStatus(status: RunStatus) {
+        if (this.status === status) return;
+        this.status = status;
+        this.events.push({ type: 'status', status });
+    }
+
+    private updateWeather(p: PlayerBody) {
+        const zone = getWeatherZone(p.x);
+        if (zone === this.weatherZone) return;
+        this.weatherZone = zone;
+        this.weather = getWeather(this.seed, zone);
+        this.events.push({ type: 'weather', weather: this.weather });
+    }
+
+    private updateBiome(p: PlayerBody) {
+        const biome = getBiome(p.x);
+        if (biome === this.biome) return;
+        this.biome = biome;
+        this.events.push({ type: 'biome', biome: biome.id });
+    }
+
+    private applyFlight(p: PlayerBody) {
+        p.vy += this.getGravity(p.vy);
+        p.vy -= getSpinLift(this.stats, this.stone, p.vr);
+        // Wind pushes light stones more, and leaves a stone resting on a target alone
+        if (Math.abs(p.vx) + Math.abs(p.vy) > 2) {
+            p.vx += this.weather.wind / (this.stats.weight || 1.0);
+        }
+
+        for (const num of this.surface) {
+            if (!num.sunk) TARGET_TYPES[num.type].inFlight?.(this, p, num);
+        }
+        this.pullCoins(p);
+
+        p.vx *= AIR_RESISTANCE * this.stats.aerodynamics;
+        p.vy *= AIR_RESISTANCE; // Simple air drag
+        p.rotation += p.vr;
+        p.vr *= SPIN_AIR_DRAG;
+
+        // Safety check for NaN
+        if (isNaN(p.vx)) p.vx = 0;
+        if (isNaN(p.vy)) p.vy = 0;
+        if (isNaN(p.x)) p.x = this.start.x;
+        if (isNaN(p.y)) p.y = this.start.y;
+
+        // Cap vertical velocity to prevent shooting into space
+        if (p.vy < -25) p.vy = -25;
+
+        // Check if stopped moving (stuck on target or water)
+        const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+        if (speed < 1.0) {
+            this.stoppedSteps++;
+            if (this.stoppedSteps > STOP_STEPS) {
+                // Resting on a target (otherwise we would have sunk): allow the player to shoot again
+                this.setStatus('AIMING');
+                this.stoppedSteps = 0;
+
+                // Reset velocity completely to prevent drift
+                p.vx = 0;
+                p.vy = 0;
+                p.vr = 0;
+            }
+        } else {
+            this.stoppedSteps = 0;
+        }
+    }
+
+    private generateSurface(p: PlayerBody) {
+        const rightmost = this.surface[this.surface.length - 1];
+        if (!rightmost) return;
+        if (rightmost.x < p.x + GENERATION_AHEAD) {
+            const difficulty = 1 + (p.x / 5000); // Difficulty scales with distance
+            const x = rightmost.x + randomRange(50, 80, this.rng);
+            this.surface.push(generateSurfaceNumber(x, difficulty, this.rng, getBiome(x).extraTargets));
+            if (this.rng() < POWER_UP_CHANCE) {
+                this.pickups.push({
+                    id: this.rng().toString(36).substr(2, 9),
+                    type: POWER_UP_IDS[Math.floor(this.rng() * POWER_UP_IDS.length)],
+                    x,
+                    y: SURFACE_Y - randomRange(80, 200, this.rng),
+                    collected: false,
+                });
+            }
+        }
+
+        // Cleanup old surface numbers
+        if (this.surface.length > MAX_SURFACE_NUMBERS) {
+            this.surface.shift();
+        }
+        if (this.pickups.length > 0 && this.pickups[0].x < p.x - CANVAS_WIDTH) {
+            this.pickups.shift();
+        }
+    }
+
+    private collectPowerUps(p: PlayerBody) {
+        for (const pickup of this.pickups) {
+            if (pickup.collected || Math.abs(pickup.x - p.x) > p.radius + POWER_UP_RADIUS) continue;
+            if (Math.hypot(pickup.x - p.x, pickup.y - p.y) > p.radius + POWER_UP_RADIUS) continue;
+            pickup.collected = true;
+
+            // Picking up one that's already running starts its clock again
+            const duration = Math.round(POWER_UPS[pickup.type].duration / FIXED_DT);
+            this.effects = this.effects.filter(effect => effect.type !== pickup.type);
+            this.effects.push({ type: pickup.type, remaining: duration, duration });
+            this.events.push({ type: 'powerUp', powerUp: pickup.type, x: pickup.x, y: pickup.y });
+        }
+    }
+
+    // Effects only run down while the stone is in the air
+    private updateEffects() {
+        for (const effect of this.effects) {
+            effect.remaining--;
+            if (effect.remaining <= 0) this.events.push({ type: 'powerUpEnd', powerUp: effect.type });
+        }
+        this.effects = this.effects.filter(effect => effect.remaining > 0);
+    }
+
+    // Uses up a sink-saving effect if there is one
+    private useShield(p: PlayerBody) {
+        const shield = this.effects.find(effect => POWER_UPS[effect.type].blocksSink);
+        if (!shield) return false;
+        this.effects = this.effects.filter(effect => effect !== shield);
+        this.events.push({ type: 'shield', x: p.x, y: p.y });
+        this.events.push({ type: 'powerUpEnd', powerUp: shield.type });
+        return true;
+    }
+
+    // Coin magnet: coins in range drift off the surface towards the stone
+    private pullCoins(p: PlayerBody) {
+        const pull = Math.max(0, ...this.effects.map(effect => POWER_UPS[effect.type].coinPull ?? 0));
+        if (pull === 0) return;
+        for (const num of this.surface) {
+            if (num.type !== 'COIN' || num.sunk) continue;
+            const dx = p.x - num.x;
+            const dy = p.y - this.getTargetY(num);
+            const dist = Math.sqrt(dx*dx + dy*dy);
+            if (dist >= COIN_PULL_RANGE || dist < 1) continue;
+            const step = Math.min(pull, dist);
+            num.x += (dx / dist) * step;
+            num.y += (dy / dist) * step;
+        }
+    }
+
+    // Returns true if the stone touched a target this step
+    private checkTargets(p: PlayerBody) {
+        const stats = this.stats;
+
+        for (const num of this.surface) {
+            if (num.sunk) continue;
+            // Optimization: only check nearby
+            if (num.x < p.x - 100 || num.x > p.x + 100) continue;
+
+            const behavior = TARGET_TYPES[num.type];
+            const numY = this.getTargetY(num);
+
+            // Fading targets can't be hit while nearly invisible
+            if (behavior.opacity && behavior.opacity(num, this.time) < SOLID_OPACITY) continue;
+
+            const dx = p.x - num.x;
+            const dy = p.y - numY;
+            const dist = Math.sqrt(dx*dx + dy*dy);
+            const minDist = p.radius + num.radius;
+            if (dist >= minDist) continue;
+
+            const impactVelocity = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+            const impactForce = impactVelocity * stats.weight * stats.value * this.stone.smashPower;
+            const resistance = num.value * num.weight;
+            const hit: TargetHit = { world: this, player: p, target: num, targetY: numY, dx, dy, dist, minDist, impactVelocity, impactForce };
+
+            if (behavior.collide) {
+                behavior.collide(hit);
+                return true;
+            }
+
+            // Smash Mechanic: If force is much higher than resistance, we crush it!
+            const isSmash = !behavior.soft && impactForce > resistance * 3;
+
+            if (impactForce <= resistance && !behavior.soft) {
+                if (this.useShield(p)) {
+                    // Shielded: pushed back out and up instead of sinking, and the target stays afloat
+                    const nx = dist > 0 ? dx / dist : 0;
+                    const ny = dist > 0 ? dy / dist : -1;
+                    p.x = num.x + nx * minDist;
+                    p.y = numY + ny * minDist;
+                    p.vy = -Math.abs(p.vy) * stats.bounciness - 4;
+                    this.combo = 0;
+                    return true;
+                }
+                // SINK (Hit target but too weak)
+                p.vx *= 0.1;
+                p.vy = 2;
+                this.combo = 0;
+                this.events.push({ type: 'sink', x: p.x, y: p.y, targetY: numY });
+                this.setStatus('SINKING');
+                return true;
+            }
+
+            // Multi-Hit Logic
+            if (!isSmash && (num.hitsRequired || 0) > 1) {
+                num.hitsRequired = (num.hitsRequired || 1) - 1;
+
+                // Bounce off
+                p.vy = -Math.abs(p.vy) * stats.bounciness;
+                p.vy -= 2;
+                p.y -= minDist - dist;
+                p.vr *= SPIN_KEPT_ON_BOUNCE;
+
+                this.events.push({ type: 'multiHit', target: num, x: p.x, y: p.y, targetY: numY });
+                return true;
+            }
+
+            let points = 0;
+            if (isSmash) {
+                // SMASH THROUGH! Lose some speed but keep going, no position correction (tunnel through)
+                p.vx *= 0.98;
+                p.vy *= 0.9;
+                points += 500; // Bonus Score for Smash
+            } else {
+                // Bounce off the target: invert Y and add some lift
+                p.vy = -Math.abs(p.vy) * stats.bounciness;
+                p.vy -= 2; // Extra pop
+
+                // Prevent sinking into the ball
+                p.y -= minDist - dist;
+
+                // Reduced friction to keep momentum (was max(0.5, ...))
+                const friction = Math.max(0.8, 1 - (resistance / (impactForce * 5)));
+                p.vx *= friction;
+                p.vr *= SPIN_KEPT_ON_BOUNCE;
+            }
+
+            this.scoreHit(hit, isSmash, points);
+            num.sunk = true;
+            behavior.afterHit?.(hit);
+            return true; // Only hit one target per step
+        }
+        return false;
+    }
+
+    // Combo, score, skip and currency for a target the stone got past
+    public scoreHit(hit: TargetHit, isSmash: boolean, bonus: number) {
+        const num = hit.target;
+        this.combo++;
+        const comboMultiplier = 1 + (this.combo * 0.1);
+        const points = (bonus + num.value * 10 * comboMultiplier) * this.getEffectScale('scoreScale');
+        const before = this.score;
+        this.score = Math.floor(this.score + points);
+        this.skips++;
+        const currency = TARGET_TYPES[num.type].currency;
+        this.currency += currency;
+
+        this.events.push({
+            type: 'targetHit',
+            target: num,
+            x: hit.player.x,
+            y: hit.player.y,
+            targetY: hit.targetY,
+            impactVelocity: hit.impactVelocity,
+            impactForce: hit.impactForce,
+            isSmash,
+            points: this.score - before,
+            currency,
+            combo: this.combo,
+        });
+    }
+
+    private checkWater(p: PlayerBody) {
+        // Whether we skip depends on how flat we come in; spin buys a steeper angle, chop takes some back
+        const surface = this.biome.surface;
+        const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+        const entryAngle = Math.atan2(p.vy, Math.abs(p.vx)) * 180 / Math.PI;
+        const isMovingDown = p.vy > 0;
+
+        if (isMovingDown && speed > MIN_SKIP_SPEED && entryAngle <= getMaxSkipAngle(p.vr, this.weather.chop) + surface.skipAngle) {
+            // SKIP ON WATER
+            p.y = SURFACE_Y - p.radius;
+            p.vy = -Math.abs(p.vy) * this.stone.waterBounce * surface.skipBounce;
+            p.vx *= Math.min(MAX_SKIP_FRICTION, this.stone.waterFriction * surface.skipFriction);
+            p.vx += surface.current;
+            p.vr *= SPIN_KEPT_ON_SKIP;
+
+            // Reset combo on water hit (penalty)
+            this.combo = 0;
+            this.events.push({ type: 'waterSkip', x: p.x, y: SURFACE_Y, impactVelocity: speed, entryAngle });
+        } else if (Math.abs(p.vy) < 4 && !surface.molten) {
+            // SOFT LANDING (FLOAT): hit the water gently, so we float instead of sinking
+            p.y = SURFACE_Y - p.radius;
+            p.vy = 0;
+            p.vx *= surface.floatDrag; // Water drag slows us down
+            p.vr *= 0.8;
+            this.events.push({ type: 'float', x: p.x, y: SURFACE_Y });
+
+            // If we stop moving, we can shoot again
+            if (Math.abs(p.vx) < 0.5) {
+                p.vx = 0;
+                p.vr = 0;
+                this.setStatus('AIMING');
+            }
+        } else if (this.useShield(p)) {
+            // Shielded: thrown back up off the water
+            p.y = SURFACE_Y - p.radius;
+            p.vy = -Math.max(6, Math.abs(p.vy) * 0.6);
+            this.combo = 0;
+        } else {
+            // SINK (Too slow AND falling fast = Splash)
+            p.vx *= 0.5;
+            p.vy = 2;
+            this.combo = 0;
+            this.events.push({ type: 'sink', x: p.x, y: p.y });
+            this.setStatus('SINKING');
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { PowerUpDef, PowerUpId } from '../types';
+
+// Pickups the endless lake scatters above the water. Fly through one to start its effect.
+export const POWER_UPS: Record<PowerUpId, PowerUpDef> = {
+    shield: {
+        id: 'shield',
+        name: 'Shield',
+        description: 'Saves you from one sink, on the water or on a target.',
+        color: '#38bdf8', // Sky-400
+        icon: '🛡️',
+        duration: 20,
+        blocksSink: true,
+    },
+    doubleScore: {
+        id: 'doubleScore',
+        name: '2x Score',
+        description: 'Every target is worth double.',
+        color: '#facc15', // Yellow-400
+        icon: '⭐',
+        duration: 8,
+        scoreScale: 2,
+    },
+    lowGravity: {
+        id: 'lowGravity',
+        name: 'Low Gravity',
+        description: 'You fall slowly, gliding in flat for easy skips.',
+        color: '#a78bfa', // Violet-400
+        icon: '🪶',
+        duration: 6,
+        gravityScale: 0.6,
+    },
+    coinMagnet: {
+        id: 'coinMagnet',
+        name: 'Coin Magnet',
+        description: 'Coins drift up to meet the stone.',
+        color: '#fbbf24', // Amber-400
+        icon: '🧲',
+        duration: 10,
+        coinPull: 4,
+    },
+};
+
+export const POWER_UP_IDS = Object.keys(POWER_UPS) as PowerUpId[];
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLAYER_STATS, PhysicsWorld } from './physics';
+import { REPLAY_VERSION, createRunRecord, parseReplay, serializeReplay, simulateRun } from './replay';
+import { playRun } from './testUtils';
+
+const recordRun = (seed: number) => {
+    const world = playRun(new PhysicsWorld(seed, DEFAULT_PLAYER_STATS));
+    return { world, record: createRunRecord(world) };
+};
+
+describe('replays', () => {
+    it('re-simulates a recorded run to the same result', () => {
+        const { world, record } = recordRun(7);
+        const replayed = simulateRun(parseReplay(serializeReplay(record)));
+        expect(replayed.score).toBe(world.score);
+        expect(replayed.distance).toBe(world.distance);
+        expect(replayed.tick).toBe(world.tick);
+    });
+
+    it('rejects anything that is not a current replay', () => {
+        const { record } = recordRun(7);
+        const broken = (patch: object) => serializeReplay({ ...record, ...patch } as typeof record);
+
+        expect(() => parseReplay('not json')).toThrow();
+        expect(() => parseReplay('null')).toThrow('Unsupported replay version');
+        expect(() => parseReplay(broken({ version: REPLAY_VERSION - 1 }))).toThrow('older physics');
+        expect(() => parseReplay(broken({ seed: 'abc' }))).toThrow('seed');
+        expect(() => parseReplay(broken({ stats: { ...record.stats, spin: null } }))).toThrow('"spin"');
+        expect(() => parseReplay(broken({ inputs: 'launch' }))).toThrow('no inputs');
+        expect(() => parseReplay(broken({ inputs: [null] }))).toThrow('tick');
+        expect(() => parseReplay(broken({ inputs: [{ tick: 1, type: 'launch', dx: 10 }] }))).toThrow('vector');
+        expect(() => parseReplay(broken({ inputs: [{ tick: 1, type: 'teleport' }] }))).toThrow('Unknown replay input');
+        expect(() => parseReplay(broken({ stone: 'brick' }))).toThrow('Unknown stone');
+        expect(() => parseReplay(broken({ stone: 'constructor' }))).toThrow('Unknown stone');
+        expect(() => parseReplay(broken({ stone: '__proto__' }))).toThrow('Unknown stone');
+    });
+});
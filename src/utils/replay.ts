@@ -0,0 +1,151 @@
+import { RunRecord, RunInput, PhysicsEvent } from '../types';
+import { PhysicsWorld } from './physics';
+import { isDailyKey } from './daily';
+import { isNumber, isObject } from './guards';
+import { isStoneTypeId } from './stones';
+import { parseLevel } from './levels';
+
+const LEAD_IN_TICKS = 30; // Idle steps shown before the first launch
+
+// Bump when physics changes; older replays are rejected rather than replayed wrong
+export const REPLAY_VERSION = 7;
+
+export const createRunRecord = (world: PhysicsWorld, daily?: string): RunRecord => ({
+    version: REPLAY_VERSION,
+    seed: world.seed,
+    stats: { ...world.stats },
+    stone: world.stone.id,
+    inputs: world.inputs.map(input => ({ ...input })),
+    ticks: world.tick,
+    result: {
+        score: world.score,
+        distance: world.distance,
+        skips: world.skips,
+        currency: world.currency,
+    },
+    recordedAt: Date.now(),
+    ...(daily ? { daily } : {}),
+    ...(world.level ? { level: world.level } : {}),
+});
+
+export const serializeReplay = (record: RunRecord) => JSON.stringify(record);
+
+const parseInput = (raw: unknown): RunInput => {
+    if (!isObject(raw) || !isNumber(raw.tick)) throw new Error('Replay input is missing its tick');
+    if (raw.type === 'launch') {
+        if (!isNumber(raw.dx) || !isNumber(raw.dy)) throw new Error('Replay launch is missing its vector');
+        return { tick: raw.tick, type: 'launch', dx: raw.dx, dy: raw.dy };
+    }
+    if (raw.type === 'dive') return { tick: raw.tick, type: 'dive' };
+    throw new Error(`Unknown replay input "${raw.type}"`);
+};
+
+// Validates an already-parsed replay, throwing a readable error if it is not one
+export const parseRunRecord = (raw: unknown): RunRecord => {
+    if (isObject(raw) && isNumber(raw.version) && raw.version < REPLAY_VERSION) throw new Error('Replay was recorded with older physics');
+    if (!isObject(raw) || raw.version !== REPLAY_VERSION) throw new Error('Unsupported replay version');
+    if (!isNumber(raw.seed) || !isNumber(raw.ticks)) throw new Error('Replay is missing its seed or length');
+
+    const stats = isObject(raw.stats) ? raw.stats : {};
+    const stat = (key: keyof RunRecord['stats']) => {
+        const value = stats[key];
+        if (!isNumber(value)) throw new Error(`Replay stats are missing "${key}"`);
+        return value;
+    };
+    const parsedStats: RunRecord['stats'] = {
+        value: stat('value'),
+        weight: stat('weight'),
+        bounciness: stat('bounciness'),
+        aerodynamics: stat('aerodynamics'),
+        maxPower: stat('maxPower'),
+        spin: stat('spin'),
+    };
+    if (!Array.isArray(raw.inputs)) throw new Error('Replay has no inputs');
+    if (raw.stone !== undefined && !isStoneTypeId(raw.stone)) throw new Error(`Unknown stone "${raw.stone}"`);
+
+    const result = isObject(raw.result) ? raw.result : {};
+    const resultNumber = (key: keyof RunRecord['result']) => (isNumber(result[key]) ? result[key] : 0);
+    return {
+        version: REPLAY_VERSION,
+        seed: raw.seed,
+        stats: parsedStats,
+        stone: isStoneTypeId(raw.stone) ? raw.stone : 'pebble',
+        inputs: raw.inputs.map(parseInput),
+        ticks: raw.ticks,
+        result: {
+            score: resultNumber('score'),
+            distance: resultNumber('distance'),
+            skips: resultNumber('skips'),
+            currency: resultNumber('currency'),
+        },
+        recordedAt: isNumber(raw.recordedAt) ? raw.recordedAt : 0,
+        ...(isDailyKey(raw.daily) ? { daily: raw.daily } : {}),
+        ...(raw.level !== undefined ? { level: parseLevel(raw.level) } : {}),
+    };
+};
+
+// Parses and validates replay JSON, throwing a readable error if it is not a replay
+export const parseReplay = (json: string): RunRecord => parseRunRecord(JSON.parse(json));
+
+// Re-simulates a recorded run, feeding its inputs back in at the recorded ticks
+export class ReplayPlayer {
+    public readonly record: RunRecord;
+    public world: PhysicsWorld;
+    public paused = false;
+    public speed = 1;
+    public readonly startTick: number;
+
+    private nextInput = 0;
+
+    constructor(record: RunRecord) {
+        this.record = record;
+        this.world = new PhysicsWorld(record.seed, record.stats, record.stone, record.level);
+        this.startTick = Math.max(0, this.firstInputTick - LEAD_IN_TICKS);
+        this.seek(this.startTick);
+    }
+
+    public get length() {
+        return this.record.ticks;
+    }
+
+    public get firstInputTick() {
+        return this.record.inputs[0]?.tick ?? 0;
+    }
+
+    public get finished() {
+        return this.world.tick >= this.record.ticks;
+    }
+
+    public step(): PhysicsEvent[] {
+        if (this.finished) return [];
+        const inputs = this.record.inputs;
+        while (this.nextInput < inputs.length && inputs[this.nextInput].tick <= this.world.tick) {
+            const input = inputs[this.nextInput++];
+            if (input.type === 'launch') {
+                this.world.launch(input.dx, input.dy);
+            } else {
+                this.world.dive();
+            }
+        }
+        return this.world.step();
+    }
+
+    // Jumps to a tick, restarting the simulation when scrubbing backwards
+    public seek(tick: number) {
+        const target = Math.max(0, Math.min(tick, this.length));
+        if (target < this.world.tick) {
+            this.world = new PhysicsWorld(this.record.seed, this.record.stats, this.record.stone, this.record.level);
+            this.nextInput = 0;
+        }
+        while (this.world.tick < target) {
+            this.step();
+        }
+    }
+}
+
+// Runs a record to completion headlessly and returns the final world
+export const simulateRun = (record: RunRecord) => {
+    const player = new ReplayPlayer(record);
+    player.seek(record.ticks);
+    return player.world;
+};
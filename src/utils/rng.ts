@@ -0,0 +1,25 @@
+// Seedable pseudo-random generator (mulberry32) so a run can be reproduced from its seed
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// FNV-1a hash of a string, stable across machines
+export const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
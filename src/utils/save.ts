@@ -0,0 +1,283 @@
+import { AudioSettings, BestRuns, DailyAttempt, LifetimeStats, SaveData, SaveStore, UpgradeLevels } from '../types';
+import { DEFAULT_PLAYER_STATS } from './physics';
+import { isDailyKey } from './daily';
+import { isNumber, isObject } from './guards';
+import { parseRunRecord } from './replay';
+import { hashString } from './rng';
+import { DEFAULT_UPGRADE_LEVELS, clampLevels, levelsFromStats } from './upgrades';
+import { DEFAULT_COSMETICS, validateCosmetics } from './cosmetics';
+import { DEFAULT_STONES, validateStones } from './stones';
+import { validateLevelProgress } from './levels';
+import { DEFAULT_AUDIO_SETTINGS } from './sound';
+
+// All persistent progress lives under one localStorage key, split into save slots.
+// Each slot carries a schema version and is migrated forward and validated on load,
+// so a corrupted or hand-edited save falls back to defaults instead of breaking the game.
+
+export const SAVE_VERSION = 2;
+export const SAVE_SLOTS = 3;
+
+const STORE_KEY = 'skipball_saves';
+const CORRUPT_BACKUP_KEY = 'skipball_saves_corrupt';
+const EXPORT_PREFIX = 'SKIPBALL-SAVE:';
+
+// Keys used before the unified save
+const LEGACY_STATS_KEY = 'stoneSkipperStats';
+const LEGACY_SAVE_KEY = 'skipball_save_v1';
+const LEGACY_BEST_RUNS_KEY = 'skipball_best_runs';
+const LEGACY_DAILY_KEY = 'skipball_daily';
+
+export const DEFAULT_LIFETIME_STATS: LifetimeStats = {
+    totalDistance: 0,
+    totalSkips: 0,
+    totalScore: 0,
+    highScore: 0,
+    maxDistance: 0,
+    gamesPlayed: 0,
+};
+
+export const createDefaultSave = (): SaveData => ({
+    version: SAVE_VERSION,
+    currency: 0,
+    upgrades: { ...DEFAULT_UPGRADE_LEVELS },
+    cosmetics: validateCosmetics(DEFAULT_COSMETICS),
+    stones: validateStones(DEFAULT_STONES),
+    lifetime: { ...DEFAULT_LIFETIME_STATS },
+    bestRuns: {},
+    levels: {},
+    updatedAt: 0, // Never modified, so any synced copy wins over it
+});
+
+// --- Validation ---
+
+// Keeps every valid numeric field of `raw`, taking the fallback for anything missing or broken
+const numberFields = <T extends object>(raw: unknown, fallback: T, min = -Infinity): T => {
+    const result = { ...fallback };
+    if (!isObject(raw)) return result;
+    for (const key of Object.keys(fallback) as (keyof T)[]) {
+        const value = raw[key as string];
+        if (isNumber(value) && value >= min) {
+            result[key] = value as T[keyof T];
+        }
+    }
+    return result;
+};
+
+const validateBestRuns = (raw: unknown): BestRuns => {
+    const bestRuns: BestRuns = {};
+    if (!isObject(raw)) return bestRuns;
+    for (const key of ['highScore', 'maxDistance'] as const) {
+        if (!raw[key]) continue;
+        try {
+            bestRuns[key] = parseRunRecord(raw[key]);
+        } catch (e) {
+            console.warn(`Dropping invalid best run "${key}"`, e);
+        }
+    }
+    return bestRuns;
+};
+
+const validateDaily = (raw: unknown): DailyAttempt | null => {
+    if (!isObject(raw) || !isDailyKey(raw.key)) return null;
+    return {
+        key: raw.key,
+        finished: raw.finished === true,
+        ...numberFields(raw, { score: 0, distance: 0, skips: 0 }, 0),
+    };
+};
+
+const validateAudio = (raw: unknown): AudioSettings => {
+    const { muted, reduceHarsh, soundPack, ...defaultVolumes } = DEFAULT_AUDIO_SETTINGS;
+    const volumes = numberFields(raw, defaultVolumes, 0);
+    for (const key of Object.keys(volumes) as (keyof typeof volumes)[]) volumes[key] = Math.min(1, volumes[key]);
+    const settings: Record<string, unknown> = isObject(raw) ? raw : {};
+    return {
+        ...volumes,
+        muted: typeof settings.muted === 'boolean' ? settings.muted : muted,
+        reduceHarsh: typeof settings.reduceHarsh === 'boolean' ? settings.reduceHarsh : reduceHarsh,
+        soundPack: typeof settings.soundPack === 'string' ? settings.soundPack : settings.soundPack === null ? null : soundPack,
+    };
+};
+
+export const validateSave = (raw: unknown): SaveData => {
+    const data = isObject(raw) ? raw : {};
+    return {
+        version: SAVE_VERSION,
+        currency: isNumber(data.currency) && data.currency >= 0 ? Math.floor(data.currency) : 0,
+        upgrades: clampLevels(numberFields<UpgradeLevels>(data.upgrades, DEFAULT_UPGRADE_LEVELS, 0)),
+        cosmetics: validateCosmetics(data.cosmetics),
+        stones: validateStones(data.stones),
+        lifetime: numberFields<LifetimeStats>(data.lifetime, DEFAULT_LIFETIME_STATS, 0),
+        bestRuns: validateBestRuns(data.bestRuns),
+        levels: validateLevelProgress(data.levels),
+        updatedAt: isNumber(data.updatedAt) ? data.updatedAt : 0,
+    };
+};
+
+// --- Migrations ---
+
+// Each entry upgrades a slot from version N to N + 1
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+    // v1 stored raw stat values; v2 stores levels in the upgrade catalog
+    1: data => ({ ...data, upgrades: levelsFromStats(isObject(data.upgrades) ? data.upgrades : {}) }),
+};
+
+export const migrateSave = (raw: unknown): SaveData => {
+    let data: Record<string, unknown> = isObject(raw) ? { ...raw } : {};
+    let version = isNumber(data.version) ? data.version : SAVE_VERSION;
+    if (version > SAVE_VERSION) {
+        console.warn(`Save version ${version} is newer than this game (${SAVE_VERSION}); reading what we can`);
+    }
+    while (version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (migrate) data = migrate(data);
+        version++;
+    }
+    return validateSave(data);
+};
+
+const readJson = (key: string): unknown => {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    try {
+        return JSON.parse(saved);
+    } catch (e) {
+        console.error(`Failed to parse ${key}`, e);
+        return null;
+    }
+};
+
+// Builds slot 1 from the pre-unified keys, then removes them
+const migrateLegacy = (): SaveStore | null => {
+    const stats = readJson(LEGACY_STATS_KEY);
+    const saved = readJson(LEGACY_SAVE_KEY);
+    const save = isObject(saved) ? saved : {};
+    const bestRuns = readJson(LEGACY_BEST_RUNS_KEY);
+    const daily = readJson(LEGACY_DAILY_KEY);
+    if (!stats && !saved && !bestRuns && !daily) return null;
+
+    const slot = migrateSave({
+        version: 1,
+        currency: save.currency,
+        // The old save spread upgrades over the defaults, so partial objects are expected
+        upgrades: { ...DEFAULT_PLAYER_STATS, ...(isObject(save.upgrades) ? save.upgrades : {}) },
+        lifetime: stats,
+        bestRuns,
+        updatedAt: Date.now(),
+    });
+
+    [LEGACY_STATS_KEY, LEGACY_SAVE_KEY, LEGACY_BEST_RUNS_KEY, LEGACY_DAILY_KEY].forEach(key => localStorage.removeItem(key));
+    return { activeSlot: 0, slots: [slot, null, null], daily: validateDaily(daily), audio: { ...DEFAULT_AUDIO_SETTINGS } };
+};
+
+// --- Store ---
+
+const emptyStore = (): SaveStore => ({ activeSlot: 0, slots: Array(SAVE_SLOTS).fill(null), daily: null, audio: { ...DEFAULT_AUDIO_SETTINGS } });
+
+const writeStore = (store: SaveStore) => {
+    localStorage.setItem(STORE_KEY, JSON.stringify(store));
+};
+
+export const loadSaveStore = (): SaveStore => {
+    const saved = localStorage.getItem(STORE_KEY);
+    if (!saved) {
+        const legacy = migrateLegacy();
+        if (legacy) writeStore(legacy);
+        return legacy || emptyStore();
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(saved);
+    } catch (e) {
+        // Keep the broken save around for recovery rather than silently losing it
+        console.error("Save is corrupted, starting fresh", e);
+        localStorage.setItem(CORRUPT_BACKUP_KEY, saved);
+        return emptyStore();
+    }
+
+    const store = isObject(raw) ? raw : {};
+    const slots = Array.isArray(store.slots) ? store.slots : [];
+    const activeSlot = isNumber(store.activeSlot) && store.activeSlot >= 0 && store.activeSlot < SAVE_SLOTS ? store.activeSlot : 0;
+    return {
+        activeSlot,
+        slots: Array.from({ length: SAVE_SLOTS }, (_, i) => (slots[i] ? migrateSave(slots[i]) : null)),
+        daily: validateDaily(store.daily),
+        audio: validateAudio(store.audio),
+    };
+};
+
+const updateStore = (update: (store: SaveStore) => void) => {
+    const store = loadSaveStore();
+    update(store);
+    writeStore(store);
+    return store;
+};
+
+export const getSlot = (store: SaveStore, slot: number) => store.slots[slot] || createDefaultSave();
+
+// Only touches updatedAt when something actually changed, so it stays a real last-modified time
+export const writeSlot = (slot: number, data: Omit<SaveData, 'version' | 'updatedAt'>) =>
+    updateStore(store => {
+        const previous = store.slots[slot];
+        const next = validateSave({ ...data, updatedAt: previous?.updatedAt ?? 0 });
+        if (JSON.stringify(previous ?? createDefaultSave()) === JSON.stringify(next)) return;
+        store.slots[slot] = { ...next, updatedAt: Date.now() };
+    });
+
+// Stores a save exactly as given, keeping its updatedAt (used when taking the synced copy)
+export const replaceSlot = (slot: number, data: SaveData) =>
+    updateStore(store => {
+        store.slots[slot] = validateSave(data);
+    });
+
+export const setActiveSlot = (slot: number) =>
+    updateStore(store => {
+        store.activeSlot = slot;
+    });
+
+// "Reset progress": wipes one slot back to a fresh stone
+export const resetSlot = (slot: number) =>
+    updateStore(store => {
+        store.slots[slot] = null;
+    });
+
+// The Daily Challenge attempt is shared by all slots so switching slots can't buy a second try
+export const writeDailyAttempt = (attempt: DailyAttempt) =>
+    updateStore(store => {
+        store.daily = attempt;
+    });
+
+// Like the daily attempt, audio settings sit outside the slots and follow the device
+export const writeAudioSettings = (settings: AudioSettings) =>
+    updateStore(store => {
+        store.audio = validateAudio(settings);
+    });
+
+// --- Export / Import ---
+
+// A save travels as one copyable line: prefix + base64 of { checksum, save }.
+// The checksum catches truncated pastes and hand edits before anything is overwritten.
+const checksum = (data: unknown) => hashString(JSON.stringify(data)).toString(16);
+
+export const exportSave = (data: SaveData) => {
+    const save = validateSave(data);
+    return EXPORT_PREFIX + btoa(JSON.stringify({ checksum: checksum(save), save }));
+};
+
+export const importSave = (code: string): SaveData => {
+    const text = code.replace(/\s+/g, '');
+    if (!text.startsWith(EXPORT_PREFIX)) throw new Error('Not a save code');
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(atob(text.slice(EXPORT_PREFIX.length)));
+    } catch {
+        throw new Error('Save code is damaged');
+    }
+    if (!isObject(payload) || !isObject(payload.save)) throw new Error('Save code has no save');
+    if (payload.checksum !== checksum(payload.save)) {
+        throw new Error('Save code failed its integrity check');
+    }
+    return migrateSave(payload.save);
+};
@@ -1,8 +1,114 @@
 // Simple synthesized sound effects using Web Audio API
+import { AudioSettings } from '../types';
+
+export type HitSound = 'normal' | 'boost' | 'coin' | 'block' | 'portal' | 'bumper' | 'magnet' | 'bomb';
+export type UiSound = 'click' | 'confirm' | 'deny';
+
+// Names a sound pack can supply a sample for; anything without one uses the synth recipe
+export type SoundEvent = 'launch' | 'waterSkip' | `targetHit.${HitSound}` | 'smash' | 'powerUp' | 'dive' | 'gameOver' | `ui.${UiSound}`;
+
+export const SOUND_EVENTS: SoundEvent[] = [
+    'launch', 'waterSkip',
+    'targetHit.normal', 'targetHit.boost', 'targetHit.coin', 'targetHit.block',
+    'targetHit.portal', 'targetHit.bumper', 'targetHit.magnet', 'targetHit.bomb',
+    'smash', 'powerUp', 'dive', 'gameOver',
+    'ui.click', 'ui.confirm', 'ui.deny',
+];
+
+// One event's recordings; a random one plays each time, nudged in pitch and volume
+export interface SampleDef {
+    urls: string[];
+    volume: number;
+    pitchVariation: number; // Playback rate varies by up to this much either way
+    volumeVariation: number; // Share of the volume that can be dropped at random
+}
+
+export interface SoundPack {
+    id: string;
+    name: string;
+    samples: Partial<Record<SoundEvent, SampleDef>>;
+}
+
+// Every sound goes through its category's gain and then the master gain
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    master: 1,
+    effects: 1,
+    music: 0.5,
+    ui: 0.8,
+    muted: false,
+    reduceHarsh: false,
+    soundPack: 'default',
+};
+
+const MASTER_HEADROOM = 0.3; // Master gain at full volume
+const MUSIC_PREVIEW_MS = 4000;
+
+// Where and how hard an effect happens, taken from the physics event behind it
+export interface SoundCue {
+    pan?: number; // -1 at the left edge of the view, 1 at the right
+    intensity?: number; // 0-1, from the softest impact to the hardest
+    combo?: number; // Hits climb in pitch as the combo grows
+}
+
+// Impacts at these sizes play at full intensity (most skips land around 10, hits around 200)
+export const FULL_SPLASH_SPEED = 30;
+export const FULL_HIT_FORCE = 1000;
+
+// Square root so soft and medium impacts still sound different from each other
+export const getImpactIntensity = (value: number, full: number) => Math.min(1, Math.sqrt(Math.max(0, value) / full));
+
+const MAX_PAN = 0.6; // Keeps a little of every sound in both ears
+const MIN_LOUDNESS = 0.4; // Level of the softest impact
+const COMBO_CENTS = 50; // A quarter tone up per combo step
+const MAX_COMBO_CENTS = 1200;
+
+// What the music reacts to, fed in from the game loop every frame
+export interface MusicState {
+    combo: number;
+    speed: number; // px per step
+    altitude: number; // px above the water
+}
+
+// Background music: a four-chord loop scheduled a little ahead of the audio clock.
+// Layers come in as the combo grows, speed drives the tempo and altitude lifts the key.
+const MUSIC_LOOKAHEAD = 0.1; // Seconds of notes scheduled ahead
+const MUSIC_TICK_MS = 25;
+const MUSIC_ROOT = 57; // A3 (MIDI)
+const CHORDS = [[0, 4, 7], [-3, 0, 4], [5, 9, 12], [7, 11, 14]]; // I - vi - IV - V
+const PENTATONIC = [0, 2, 4, 7, 9, 12];
+const ARP_COMBO = 2;
+const HATS_COMBO = 5;
+const LEAD_COMBO = 8;
+const MIN_BPM = 84;
+const MAX_BPM = 132;
+const FAST_SPEED = 25; // Speed that plays at MAX_BPM
+const KEY_STEP_ALTITUDE = 150; // Px of height per two-semitone step up
+const MAX_KEY_SHIFT = 7;
+const DUCK_LEVEL = 0.35; // Music level while an effect plays
+
+const midiToFreq = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
 class SoundManager {
     private ctx: AudioContext | null = null;
     private masterGain: GainNode | null = null;
+    private effectsGain: GainNode | null = null;
+    private uiGain: GainNode | null = null;
+    private musicGain: GainNode | null = null;
+    private musicDuck: GainNode | null = null;
+    private noiseBuffer: AudioBuffer | null = null;
     private enabled: boolean = true;
+    private settings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
+    private pack: SoundPack | null = null;
+    private samples = new Map<SoundEvent, AudioBuffer[]>();
+
+    // Music scheduler
+    private musicTimer: ReturnType<typeof setInterval> | null = null;
+    private musicState: MusicState = { combo: 0, speed: 0, altitude: 0 };
+    private nextNoteTime = 0;
+    private musicStep = 0; // Eighth note within the bar
+    private musicBar = 0;
+    private keyShift = 0; // Semitones, only changed on a new bar
+    private previewTimer: ReturnType<typeof setTimeout> | null = null; // Set while the settings panel plays a sample
 
     constructor() {
         // Defer initialization until first interaction
@@ -12,19 +118,131 @@ class SoundManager {
         if (!this.ctx) {
             this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
             this.masterGain = this.ctx.createGain();
-            this.masterGain.gain.value = 0.3; // Master volume
             this.masterGain.connect(this.ctx.destination);
+            this.effectsGain = this.ctx.createGain();
+            this.effectsGain.connect(this.masterGain);
+            this.uiGain = this.ctx.createGain();
+            this.uiGain.connect(this.masterGain);
+
+            // Music has a ducking stage in front of its volume
+            this.musicGain = this.ctx.createGain();
+            this.musicGain.connect(this.masterGain);
+            this.musicDuck = this.ctx.createGain();
+            this.musicDuck.connect(this.musicGain);
+
+            this.applyGains(false);
+            this.decodePack();
         }
         if (this.ctx.state === 'suspended') {
             this.ctx.resume();
         }
     }
 
-    public toggleMute() {
-        this.enabled = !this.enabled;
-        if (this.masterGain) {
-            this.masterGain.gain.value = this.enabled ? 0.3 : 0;
+    // Dips the music for a moment so an effect cuts through
+    private duckMusic() {
+        if (!this.ctx || !this.musicDuck || this.musicTimer === null) return;
+        const now = this.ctx.currentTime;
+        const gain = this.musicDuck.gain;
+        gain.cancelScheduledValues(now);
+        gain.setTargetAtTime(DUCK_LEVEL, now, 0.02);
+        gain.setTargetAtTime(1, now + 0.15, 0.25);
+    }
+
+    // Samples decode once the audio context exists (the first sound after a click), so the
+    // very first sounds may still come from the synth
+    public setSoundPack(pack: SoundPack | null) {
+        if (pack?.id === this.pack?.id) return;
+        this.pack = pack;
+        this.samples = new Map();
+        this.decodePack();
+    }
+
+    private decodePack() {
+        const pack = this.pack;
+        const ctx = this.ctx;
+        if (!pack || !ctx) return;
+        for (const [event, sample] of Object.entries(pack.samples) as [SoundEvent, SampleDef][]) {
+            Promise.all(sample.urls.map(async url => {
+                const response = await fetch(url);
+                if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+                return ctx.decodeAudioData(await response.arrayBuffer());
+            }))
+                .then(buffers => {
+                    if (this.pack === pack) this.samples.set(event, buffers);
+                })
+                .catch(e => console.warn(`Sound pack "${pack.id}": "${event}" falls back to the synth`, e));
+        }
+    }
+
+    // A per-sound level and panner in front of the effects bus
+    private effectsOutput(cue: SoundCue): AudioNode | null {
+        if (!this.ctx || !this.effectsGain) return null;
+        let output: AudioNode = this.effectsGain;
+        if (cue.pan) {
+            const panner = this.ctx.createStereoPanner();
+            panner.pan.value = Math.max(-1, Math.min(1, cue.pan)) * MAX_PAN;
+            panner.connect(output);
+            output = panner;
+        }
+        if (cue.intensity !== undefined) {
+            const level = this.ctx.createGain();
+            level.gain.value = MIN_LOUDNESS + (1 - MIN_LOUDNESS) * Math.max(0, Math.min(1, cue.intensity));
+            level.connect(output);
+            output = level;
         }
+        return output;
+    }
+
+    private comboCents(cue: SoundCue) {
+        return Math.min(MAX_COMBO_CENTS, Math.max(0, (cue.combo ?? 1) - 1) * COMBO_CENTS);
+    }
+
+    // Plays the pack's sample for an event, if it has one loaded
+    private playSample(event: SoundEvent, bus: AudioNode, cue: SoundCue = {}) {
+        const sample = this.pack?.samples[event];
+        const buffers = this.samples.get(event);
+        if (!this.ctx || !sample || !buffers?.length) return false;
+
+        const source = this.ctx.createBufferSource();
+        source.buffer = buffers[Math.floor(Math.random() * buffers.length)];
+        const variation = 1 + (Math.random() * 2 - 1) * sample.pitchVariation;
+        source.playbackRate.value = variation * Math.pow(2, this.comboCents(cue) / 1200);
+        const gain = this.ctx.createGain();
+        gain.gain.value = sample.volume * (1 - Math.random() * sample.volumeVariation);
+        source.connect(gain);
+        gain.connect(bus);
+        source.start();
+        return true;
+    }
+
+    // Glides to the new levels so dragging a slider doesn't click
+    private applyGains(smooth = true) {
+        if (!this.ctx) return;
+        const levels: [GainNode | null, number][] = [
+            [this.masterGain, this.settings.muted ? 0 : this.settings.master * MASTER_HEADROOM],
+            [this.effectsGain, this.settings.effects],
+            [this.uiGain, this.settings.ui],
+            [this.musicGain, this.settings.music],
+        ];
+        for (const [node, level] of levels) {
+            if (!node) continue;
+            if (smooth) node.gain.setTargetAtTime(level, this.ctx.currentTime, 0.05);
+            else node.gain.value = level;
+        }
+    }
+
+    public getSettings(): AudioSettings {
+        return { ...this.settings };
+    }
+
+    public applySettings(settings: AudioSettings) {
+        this.settings = { ...settings };
+        this.enabled = !settings.muted;
+        this.applyGains();
+    }
+
+    public toggleMute() {
+        this.applySettings({ ...this.settings, muted: !this.settings.muted });
         return this.enabled;
     }
 
@@ -32,17 +250,150 @@ class SoundManager {
         return this.enabled;
     }
 
+    // --- Music ---
+
+    public startMusic() {
+        // A real start takes over from a preview
+        if (this.previewTimer !== null) {
+            clearTimeout(this.previewTimer);
+            this.previewTimer = null;
+        }
+        this.beginMusic();
+    }
+
+    private beginMusic() {
+        if (this.musicTimer !== null) return;
+        this.init();
+        if (!this.ctx) return;
+        this.nextNoteTime = this.ctx.currentTime + 0.05;
+        this.musicStep = 0;
+        this.musicBar = 0;
+        this.musicTimer = setInterval(() => this.scheduleMusic(), MUSIC_TICK_MS);
+    }
+
+    public stopMusic() {
+        if (this.musicTimer === null) return;
+        clearInterval(this.musicTimer);
+        this.musicTimer = null;
+    }
+
+    // A few seconds with every layer playing, for the settings panel
+    public previewMusic() {
+        if (this.musicTimer !== null && this.previewTimer === null) return; // Already playing for real
+        if (this.previewTimer !== null) clearTimeout(this.previewTimer);
+        this.beginMusic();
+        this.previewTimer = setTimeout(() => {
+            this.previewTimer = null;
+            this.stopMusic();
+        }, MUSIC_PREVIEW_MS);
+    }
+
+    public setMusicState(state: MusicState) {
+        this.musicState = state;
+    }
+
+    private scheduleMusic() {
+        if (!this.ctx) return;
+        // Fell behind (tab in the background): skip ahead instead of playing a burst of notes
+        if (this.nextNoteTime < this.ctx.currentTime - 0.2) {
+            this.nextNoteTime = this.ctx.currentTime + 0.05;
+        }
+        while (this.nextNoteTime < this.ctx.currentTime + MUSIC_LOOKAHEAD) {
+            if (this.musicStep === 0) {
+                // Key changes wait for the bar line
+                const shift = Math.floor(Math.max(0, this.musicState.altitude) / KEY_STEP_ALTITUDE) * 2;
+                this.keyShift = Math.min(MAX_KEY_SHIFT, shift);
+            }
+            if (this.enabled) this.playMusicStep(this.nextNoteTime);
+
+            const speed = Math.min(1, this.musicState.speed / FAST_SPEED);
+            const bpm = MIN_BPM + (MAX_BPM - MIN_BPM) * speed;
+            this.nextNoteTime += 60 / bpm / 2; // Eighth notes
+            this.musicStep = (this.musicStep + 1) % 8;
+            if (this.musicStep === 0) this.musicBar++;
+        }
+    }
+
+    private playMusicStep(time: number) {
+        const step = this.musicStep;
+        const combo = this.previewTimer !== null ? LEAD_COMBO : this.musicState.combo;
+        const root = MUSIC_ROOT + this.keyShift;
+        const chord = CHORDS[this.musicBar % CHORDS.length];
+
+        // Bass on beats one and three
+        if (step % 4 === 0) {
+            this.playMusicNote(midiToFreq(root - 12 + chord[0]), time, 0.45, 'triangle', 0.3);
+        }
+        // Arpeggio up and down the chord
+        if (combo >= ARP_COMBO) {
+            const order = [0, 1, 2, 1];
+            this.playMusicNote(midiToFreq(root + 12 + chord[order[step % 4]]), time, 0.12, 'square', 0.05);
+        }
+        // Hi-hats on the off-beats
+        if (combo >= HATS_COMBO && step % 2 === 1) {
+            this.playMusicHat(time);
+        }
+        // Lead: a pentatonic phrase that changes with the bar
+        if (combo >= LEAD_COMBO && (step === 0 || step === 3 || step === 6)) {
+            const note = PENTATONIC[(this.musicBar * 3 + step) % PENTATONIC.length];
+            this.playMusicNote(midiToFreq(root + 12 + note), time, 0.3, 'sine', 0.12);
+        }
+    }
+
+    private playMusicNote(freq: number, time: number, length: number, type: OscillatorType, volume: number) {
+        if (!this.ctx || !this.musicDuck) return;
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+        osc.connect(gain);
+        gain.connect(this.musicDuck);
+
+        osc.type = type;
+        osc.frequency.setValueAtTime(freq, time);
+        gain.gain.setValueAtTime(0.0001, time);
+        gain.gain.exponentialRampToValueAtTime(volume, time + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, time + length);
+
+        osc.start(time);
+        osc.stop(time + length);
+    }
+
+    private playMusicHat(time: number) {
+        if (!this.ctx || !this.musicDuck) return;
+        if (!this.noiseBuffer) {
+            const size = Math.floor(this.ctx.sampleRate * 0.05);
+            this.noiseBuffer = this.ctx.createBuffer(1, size, this.ctx.sampleRate);
+            const data = this.noiseBuffer.getChannelData(0);
+            for (let i = 0; i < size; i++) data[i] = Math.random() * 2 - 1;
+        }
+        const noise = this.ctx.createBufferSource();
+        noise.buffer = this.noiseBuffer;
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = 7000;
+        const gain = this.ctx.createGain();
+        noise.connect(filter);
+        filter.connect(gain);
+        gain.connect(this.musicDuck);
+
+        gain.gain.setValueAtTime(0.08, time);
+        gain.gain.exponentialRampToValueAtTime(0.001, time + 0.04);
+        noise.start(time);
+    }
+
     // --- Sound Generators ---
 
-    public playLaunch() {
+    public playLaunch(cue: SoundCue = {}) {
         this.init();
-        if (!this.enabled || !this.ctx || !this.masterGain) return;
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('launch', output, cue)) return;
 
         const osc = this.ctx.createOscillator();
         const gain = this.ctx.createGain();
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
 
         // Rising pitch "whoosh"
         osc.type = 'triangle';
@@ -56,12 +407,17 @@ class SoundManager {
         osc.stop(this.ctx.currentTime + 0.3);
     }
 
-    public playWaterSkip() {
+    public playWaterSkip(cue: SoundCue = {}) {
         this.init();
-        if (!this.enabled || !this.ctx || !this.masterGain) return;
-
-        // Noise burst for splash
-        const bufferSize = this.ctx.sampleRate * 0.1; // 0.1 seconds
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('waterSkip', output, cue)) return;
+
+        // Noise burst for splash: harder skips are longer, louder and brighter
+        const intensity = cue.intensity ?? 0.3;
+        const length = 0.06 + 0.14 * intensity;
+        const bufferSize = Math.floor(this.ctx.sampleRate * length);
         const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
         const data = buffer.getChannelData(0);
         for (let i = 0; i < bufferSize; i++) {
@@ -74,29 +430,33 @@ class SoundManager {
         // Low pass filter to make it sound like water
         const filter = this.ctx.createBiquadFilter();
         filter.type = 'lowpass';
-        filter.frequency.value = 400;
+        filter.frequency.value = 250 + 900 * intensity;
 
         const gain = this.ctx.createGain();
         
         noise.connect(filter);
         filter.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
 
         gain.gain.setValueAtTime(0.8, this.ctx.currentTime);
-        gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + 0.1);
+        gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + length);
 
         noise.start();
     }
 
-    public playTargetHit(type: 'normal' | 'boost' | 'coin' | 'block') {
+    public playTargetHit(type: HitSound, cue: SoundCue = {}) {
         this.init();
-        if (!this.enabled || !this.ctx || !this.masterGain) return;
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample(`targetHit.${type}`, output, cue)) return;
 
         const osc = this.ctx.createOscillator();
         const gain = this.ctx.createGain();
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
+        osc.detune.value = this.comboCents(cue);
 
         const now = this.ctx.currentTime;
 
@@ -129,8 +489,8 @@ class SoundManager {
                 break;
 
             case 'block':
-                // Low thud
-                osc.type = 'sawtooth';
+                // Low thud, rounded off to a sine when harsh sounds are reduced
+                osc.type = this.settings.reduceHarsh ? 'sine' : 'sawtooth';
                 osc.frequency.setValueAtTime(100, now);
                 osc.frequency.exponentialRampToValueAtTime(50, now + 0.1);
                 
@@ -141,6 +501,60 @@ class SoundManager {
                 osc.stop(now + 0.1);
                 break;
 
+            case 'portal':
+                // Warbling sweep down and back up
+                osc.type = 'sine';
+                osc.frequency.setValueAtTime(900, now);
+                osc.frequency.exponentialRampToValueAtTime(200, now + 0.15);
+                osc.frequency.exponentialRampToValueAtTime(1400, now + 0.35);
+
+                gain.gain.setValueAtTime(0.3, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.35);
+
+                osc.start();
+                osc.stop(now + 0.35);
+                break;
+
+            case 'bumper':
+                // Springy "boing"
+                osc.type = 'triangle';
+                osc.frequency.setValueAtTime(250, now);
+                osc.frequency.exponentialRampToValueAtTime(700, now + 0.05);
+                osc.frequency.exponentialRampToValueAtTime(350, now + 0.25);
+
+                gain.gain.setValueAtTime(0.4, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.25);
+
+                osc.start();
+                osc.stop(now + 0.25);
+                break;
+
+            case 'magnet':
+                // Metallic clank
+                osc.type = 'square';
+                osc.frequency.setValueAtTime(320, now);
+                osc.frequency.setValueAtTime(240, now + 0.04);
+
+                gain.gain.setValueAtTime(0.25, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.15);
+
+                osc.start();
+                osc.stop(now + 0.15);
+                break;
+
+            case 'bomb':
+                // Long low boom
+                osc.type = this.settings.reduceHarsh ? 'triangle' : 'sawtooth';
+                osc.frequency.setValueAtTime(150, now);
+                osc.frequency.exponentialRampToValueAtTime(30, now + 0.6);
+
+                gain.gain.setValueAtTime(0.6, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.6);
+
+                osc.start();
+                osc.stop(now + 0.6);
+                break;
+
             case 'normal':
             default:
                 // Simple blip
@@ -156,15 +570,97 @@ class SoundManager {
         }
     }
 
-    public playDive() {
+    // Breaking through a target: a crackling noise crunch over a low thump
+    public playSmash(cue: SoundCue = {}) {
+        this.init();
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('smash', output, cue)) return;
+
+        const now = this.ctx.currentTime;
+        const length = 0.3;
+
+        const bufferSize = Math.floor(this.ctx.sampleRate * length);
+        const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+        const data = buffer.getChannelData(0);
+        for (let i = 0; i < bufferSize; i++) {
+            data[i] = Math.random() * 2 - 1;
+        }
+        const noise = this.ctx.createBufferSource();
+        noise.buffer = buffer;
+
+        // Band-passed so it crunches rather than hisses; a plain low-pass when harsh sounds are reduced
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = this.settings.reduceHarsh ? 'lowpass' : 'bandpass';
+        filter.frequency.value = this.settings.reduceHarsh ? 900 : 1800;
+        filter.Q.value = 0.8;
+
+        const crunch = this.ctx.createGain();
+        noise.connect(filter);
+        filter.connect(crunch);
+        crunch.connect(output);
+
+        // Stepped, decaying envelope for the crackle
+        for (let i = 0; i < 6; i++) {
+            crunch.gain.setValueAtTime(0.7 * (1 - i / 6) * (i % 2 ? 0.35 : 1), now + i * 0.03);
+        }
+        crunch.gain.exponentialRampToValueAtTime(0.01, now + length);
+        noise.start();
+
+        const osc = this.ctx.createOscillator();
+        const thump = this.ctx.createGain();
+        osc.connect(thump);
+        thump.connect(output);
+
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(120, now);
+        osc.frequency.exponentialRampToValueAtTime(40, now + length);
+        thump.gain.setValueAtTime(0.6, now);
+        thump.gain.exponentialRampToValueAtTime(0.01, now + length);
+
+        osc.start();
+        osc.stop(now + length);
+    }
+
+    public playPowerUp(cue: SoundCue = {}) {
         this.init();
-        if (!this.enabled || !this.ctx || !this.masterGain) return;
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('powerUp', output, cue)) return;
 
         const osc = this.ctx.createOscillator();
         const gain = this.ctx.createGain();
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
+
+        // Quick rising arpeggio
+        const now = this.ctx.currentTime;
+        osc.type = 'triangle';
+        [523, 659, 784, 1047].forEach((freq, i) => osc.frequency.setValueAtTime(freq, now + i * 0.06));
+
+        gain.gain.setValueAtTime(0.3, now);
+        gain.gain.linearRampToValueAtTime(0.3, now + 0.24);
+        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.4);
+
+        osc.start();
+        osc.stop(now + 0.4);
+    }
+
+    public playDive(cue: SoundCue = {}) {
+        this.init();
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('dive', output, cue)) return;
+
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+
+        osc.connect(gain);
+        gain.connect(output);
 
         // Rapid pitch drop
         osc.type = 'sine';
@@ -178,15 +674,18 @@ class SoundManager {
         osc.stop(this.ctx.currentTime + 0.2);
     }
 
-    public playGameOver() {
+    public playGameOver(cue: SoundCue = {}) {
         this.init();
-        if (!this.enabled || !this.ctx || !this.masterGain) return;
+        const output = this.effectsOutput(cue);
+        if (!this.enabled || !this.ctx || !output) return;
+        this.duckMusic();
+        if (this.playSample('gameOver', output, cue)) return;
 
         const osc = this.ctx.createOscillator();
         const gain = this.ctx.createGain();
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
 
         // Sad descending tone
         osc.type = 'triangle';
@@ -199,6 +698,56 @@ class SoundManager {
         osc.start();
         osc.stop(this.ctx.currentTime + 0.5);
     }
+
+    // Menu feedback, on its own volume and never ducking the music
+    public playUi(type: UiSound) {
+        this.init();
+        if (!this.enabled || !this.ctx || !this.uiGain) return;
+        if (this.playSample(`ui.${type}`, this.uiGain)) return;
+
+        const osc = this.ctx.createOscillator();
+        const gain = this.ctx.createGain();
+
+        osc.connect(gain);
+        gain.connect(this.uiGain);
+
+        const now = this.ctx.currentTime;
+
+        switch (type) {
+            case 'confirm':
+                // Bright two-note chime
+                osc.type = 'sine';
+                osc.frequency.setValueAtTime(880, now);
+                osc.frequency.setValueAtTime(1320, now + 0.07);
+                gain.gain.setValueAtTime(0.25, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
+                osc.start();
+                osc.stop(now + 0.2);
+                break;
+
+            case 'deny':
+                // Short low buzz
+                osc.type = 'triangle';
+                osc.frequency.setValueAtTime(180, now);
+                osc.frequency.setValueAtTime(140, now + 0.08);
+                gain.gain.setValueAtTime(0.3, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.18);
+                osc.start();
+                osc.stop(now + 0.18);
+                break;
+
+            case 'click':
+            default:
+                // Soft tick
+                osc.type = 'sine';
+                osc.frequency.setValueAtTime(1000, now);
+                gain.gain.setValueAtTime(0.15, now);
+                gain.gain.exponentialRampToValueAtTime(0.01, now + 0.04);
+                osc.start();
+                osc.stop(now + 0.04);
+                break;
+        }
+    }
 }
 
 export const soundManager = new SoundManager();
@@ -0,0 +1,60 @@
+import { SOUND_EVENTS, SampleDef, SoundEvent, SoundPack } from './sound';
+import { isNumber, isObject } from './guards';
+
+// Sound packs live in src/sounds/<pack>/: a manifest.json plus the audio files it names,
+// which Vite bundles with the app. Like level packs, a broken manifest fails loudly on load.
+
+const manifests = import.meta.glob('../sounds/*/manifest.json', { eager: true, import: 'default' });
+const audioFiles = import.meta.glob('../sounds/*/*.{ogg,mp3,wav,m4a}', { eager: true, query: '?url', import: 'default' }) as Record<string, string>;
+
+const isSoundEvent = (name: unknown): name is SoundEvent => SOUND_EVENTS.includes(name as SoundEvent);
+
+const fraction = (raw: Record<string, unknown>, key: string, where: string, fallback: number) => {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (!isNumber(value) || value < 0 || value > 1) throw new Error(`${where}: "${key}" must be between 0 and 1`);
+    return value;
+};
+
+// `folder` is the pack's directory as the glob keys see it, e.g. "../sounds/default/"
+const parseSample = (raw: unknown, folder: string, where: string): SampleDef => {
+    if (!isObject(raw)) throw new Error(`${where} is not an object`);
+    if (!Array.isArray(raw.files) || raw.files.length === 0) throw new Error(`${where} has no files`);
+    const urls = raw.files.map((file: unknown) => {
+        const url = typeof file === 'string' ? audioFiles[folder + file] : undefined;
+        if (!url) throw new Error(`${where}: "${file}" is not an audio file in the pack folder`);
+        return url;
+    });
+    return {
+        urls,
+        volume: fraction(raw, 'volume', where, 1),
+        pitchVariation: fraction(raw, 'pitchVariation', where, 0),
+        volumeVariation: fraction(raw, 'volumeVariation', where, 0),
+    };
+};
+
+export const parseSoundPack = (raw: unknown, folder: string): SoundPack => {
+    if (!isObject(raw)) throw new Error(`Sound pack in ${folder} is not an object`);
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string') throw new Error(`Sound pack in ${folder} is missing its id or name`);
+    const where = `Sound pack "${raw.id}"`;
+    if (!isObject(raw.sounds)) throw new Error(`${where} has no "sounds"`);
+
+    const samples: SoundPack['samples'] = {};
+    for (const [event, sample] of Object.entries(raw.sounds)) {
+        if (!isSoundEvent(event)) throw new Error(`${where}: unknown sound "${event}"`);
+        samples[event] = parseSample(sample, folder, `${where} sound "${event}"`);
+    }
+    return { id: raw.id, name: raw.name, samples };
+};
+
+export const SOUND_PACKS: SoundPack[] = Object.entries(manifests).map(([path, raw]) =>
+    parseSoundPack(raw, path.slice(0, path.lastIndexOf('/') + 1)),
+);
+
+const ids = new Set<string>();
+for (const pack of SOUND_PACKS) {
+    if (ids.has(pack.id)) throw new Error(`Duplicate sound pack id "${pack.id}"`);
+    ids.add(pack.id);
+}
+
+export const getSoundPack = (id: string | null) => SOUND_PACKS.find(pack => pack.id === id) || null;
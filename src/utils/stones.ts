@@ -0,0 +1,77 @@
+import { StoneCollection, StoneType, StoneTypeId } from '../types';
+import { isObject } from './guards';
+
+// Stones the player can pick on the menu. Each one is a base stat preset (upgrades add on top)
+// plus traits read by the physics (smashing, water skips, spin lift) and the renderer (size, shape).
+export const STONE_TYPES: Record<StoneTypeId, StoneType> = {
+    pebble: {
+        id: 'pebble',
+        name: 'Pebble',
+        description: 'The all-rounder every skipper starts with.',
+        unlockCost: 0,
+        stats: { value: 10, weight: 1.0, bounciness: 0.7, aerodynamics: 0.99, maxPower: 25, spin: 0.15 },
+        radiusScale: 1,
+        squash: 1,
+        smashPower: 1,
+        waterBounce: 0.6,
+        waterFriction: 0.9,
+        spinLift: 0,
+    },
+    skimmer: {
+        id: 'skimmer',
+        name: 'Skimmer',
+        description: 'Flat and light. Skips off the water for days, but bounces off blocks.',
+        unlockCost: 1500,
+        stats: { value: 10, weight: 0.8, bounciness: 0.85, aerodynamics: 0.993, maxPower: 24, spin: 0.2 },
+        radiusScale: 0.9,
+        squash: 0.55,
+        smashPower: 0.9,
+        waterBounce: 0.75,
+        waterFriction: 0.94,
+        spinLift: 0,
+    },
+    boulder: {
+        id: 'boulder',
+        name: 'Boulder',
+        description: 'Heavy and slow, but smashes straight through most targets.',
+        unlockCost: 2500,
+        stats: { value: 10, weight: 1.6, bounciness: 0.55, aerodynamics: 0.98, maxPower: 27, spin: 0.05 },
+        radiusScale: 1.15,
+        squash: 1,
+        smashPower: 1.15,
+        waterBounce: 0.45,
+        waterFriction: 0.85,
+        spinLift: 0,
+    },
+    disc: {
+        id: 'disc',
+        name: 'Disc',
+        description: 'Leaves your hand spinning. The faster it spins, the longer it glides.',
+        unlockCost: 3000,
+        stats: { value: 10, weight: 1.0, bounciness: 0.7, aerodynamics: 0.993, maxPower: 25, spin: 0.5 },
+        radiusScale: 1,
+        squash: 0.35,
+        smashPower: 1,
+        waterBounce: 0.65,
+        waterFriction: 0.93,
+        spinLift: 0.45,
+    },
+};
+
+export const STONE_TYPE_IDS = Object.keys(STONE_TYPES) as StoneTypeId[];
+
+// Own keys only: `in` would also accept inherited names like "constructor"
+export const isStoneTypeId = (id: unknown): id is StoneTypeId => typeof id === 'string' && Object.hasOwn(STONE_TYPES, id);
+
+export const getStoneType = (id: StoneTypeId | undefined) => (isStoneTypeId(id) ? STONE_TYPES[id] : STONE_TYPES.pebble);
+
+export const DEFAULT_STONES: StoneCollection = { owned: ['pebble'], selected: 'pebble' };
+
+// Drops unknown stones and falls back to the pebble if the selected one isn't owned
+export const validateStones = (raw: unknown): StoneCollection => {
+    const data: Record<string, unknown> = isObject(raw) ? raw : {};
+    const owned = new Set<StoneTypeId>(DEFAULT_STONES.owned);
+    if (Array.isArray(data.owned)) data.owned.filter(isStoneTypeId).forEach(id => owned.add(id));
+    const selected = isStoneTypeId(data.selected) && owned.has(data.selected) ? data.selected : DEFAULT_STONES.selected;
+    return { owned: [...owned], selected };
+};
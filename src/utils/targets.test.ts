@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLAYER_STATS, PhysicsWorld } from './physics';
+import { createRng } from './rng';
+import { TARGET_TYPES, TARGET_TYPE_IDS, generateSurfaceNumber, isTargetType } from './targets';
+import { hitFirstTarget, lake } from './testUtils';
+
+const rollTypes = (difficulty: number, rolls = 500) => {
+    const rng = createRng(11);
+    return new Set(Array.from({ length: rolls }, (_, i) => generateSurfaceNumber(300 + i * 80, difficulty, rng).type));
+};
+
+describe('target registry', () => {
+    it('files every type under its own id', () => {
+        for (const id of TARGET_TYPE_IDS) expect(TARGET_TYPES[id].id).toBe(id);
+        expect(isTargetType('BUMPER')).toBe(true);
+        expect(isTargetType('constructor')).toBe(false);
+    });
+
+    it('only generates types past their difficulty', () => {
+        const early = rollTypes(1);
+        for (const id of early) expect(TARGET_TYPES[id].minDifficulty).toBeLessThan(1);
+        expect(rollTypes(3)).toEqual(new Set(TARGET_TYPE_IDS));
+    });
+
+    it('generates the same target from the same rolls', () => {
+        expect(generateSurfaceNumber(500, 2, createRng(4))).toEqual(generateSurfaceNumber(500, 2, createRng(4)));
+    });
+
+    it('never sinks the stone on a soft coin', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'COIN', x: 400, value: 99, weight: 10 }]));
+        const hit = hitFirstTarget(world).find(e => e.type === 'targetHit');
+        expect(hit).toMatchObject({ currency: 10 });
+        expect(world.status).toBe('FLYING');
+    });
+
+    it('throws the stone back out of a bumper, faster than it came in', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([{ type: 'BUMPER', x: 400, value: 1 }]));
+        hitFirstTarget(world, 0, 3); // Dropping straight onto its top
+        const p = world.player;
+        expect(p.vx).toBeGreaterThanOrEqual(0);
+        expect(p.vy).toBeLessThan(0);
+        expect(Math.hypot(p.vx, p.vy)).toBeGreaterThan(3);
+    });
+
+    it('sinks everything in a bomb\'s blast and nothing past it', () => {
+        const world = new PhysicsWorld(1, DEFAULT_PLAYER_STATS, 'pebble', lake([
+            { type: 'BOMB', x: 400, value: 1 },
+            { type: 'BLOCK', x: 600, value: 5 },
+            { type: 'NORMAL', x: 900, value: 1 },
+        ]));
+        const bomb = hitFirstTarget(world).find(e => e.type === 'bomb');
+        expect(bomb).toBeDefined();
+        expect(world.surface.map(num => num.sunk)).toEqual([true, true, false]);
+    });
+});
@@ -0,0 +1,396 @@
+import { PlayerBody, SurfaceNumber } from '../types';
+import { SURFACE_Y, randomRange } from './gameUtils';
+import { Rng } from './rng';
+import type { HitSound } from './sound';
+import type { PhysicsWorld } from './physics';
+
+// Everything a target type does lives in its registry entry: how the generator picks it,
+// how it reacts when the stone hits it, and how it looks, sounds and reads in the guide.
+// The generator, the physics step, the renderer and the rules screen all go through here.
+
+export type TargetTypeId = SurfaceNumber['type'];
+
+// One contact between the stone and a target
+export interface TargetHit {
+    world: PhysicsWorld;
+    player: PlayerBody;
+    target: SurfaceNumber;
+    targetY: number;
+    dx: number; // Stone centre minus target centre
+    dy: number;
+    dist: number;
+    minDist: number; // Touching distance
+    impactVelocity: number;
+    impactForce: number;
+}
+
+export interface TargetBehavior {
+    id: TargetTypeId;
+    color: string;
+    weight: number;
+    hits: number; // Hits it takes before it gives way
+
+    // Generation
+    minDifficulty: number; // Only generated past this difficulty
+    spawnWeight: number; // Entries in the generator's bag
+    earlyWeight?: number; // Extra entries before EARLY_DIFFICULTY, to help new players along
+    valueScale: number;
+    fixedValue?: number; // Always worth exactly this
+    init?: (target: SurfaceNumber) => void; // Type-specific fields, for generated and handcrafted targets alike
+    spawn?: (target: SurfaceNumber, rng: Rng) => void; // Random rolls for generated targets (part of the replay format)
+
+    // Physics
+    currency: number; // Paid when the stone gets past it
+    soft?: boolean; // Never sinks the stone and can't be smashed
+    opacity?: (target: SurfaceNumber, time: number) => number; // Below SOLID_OPACITY the stone flies through
+    collide?: (hit: TargetHit) => void; // Replaces the usual sink, bounce and smash response
+    afterHit?: (hit: TargetHit) => void; // After a normal bounce or smash has been scored
+    inFlight?: (world: PhysicsWorld, player: PlayerBody, target: SurfaceNumber) => void; // Every step the stone is flying
+
+    // Presentation
+    sound: HitSound;
+    callout?: { text: string; size: number; rise: number }; // Floating text on a hit, in the target's color
+    drawUnder?: (ctx: CanvasRenderingContext2D, target: SurfaceNumber, y: number, time: number) => void; // Under all targets, on or off screen
+    draw?: (ctx: CanvasRenderingContext2D, target: SurfaceNumber, y: number, time: number) => void; // On top of the target while afloat
+    guide: { description: string; dot: string; accent: string }; // Rules screen entry (Tailwind classes)
+}
+
+const EARLY_DIFFICULTY = 1.5;
+export const SOLID_OPACITY = 0.3;
+
+const PORTAL_EXIT_HEIGHT = 60; // How far above the surface the stone comes out of a portal
+export const PORTAL_JUMP = 400; // Default distance from a handcrafted portal to its exit
+const BUMPER_BOOST = 1.4; // Speed kept when bouncing off a bumper
+const MAX_BUMPER_SPEED = 30;
+const BUMPER_SPIN_KEPT = 0.7;
+const MAGNET_RANGE = 220; // px
+const MAGNET_PULL = 0.4; // Pull per step on a stone right next to a magnet
+const BOMB_RADIUS = 250; // px either side of the bomb
+
+export const getGhostOpacity = (num: SurfaceNumber, time: number) => 0.5 + Math.sin(time * 3 + num.x) * 0.4;
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number) => {
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 10px "Inter"';
+    ctx.fillText(text, x, y);
+};
+
+export const TARGET_TYPES: Record<TargetTypeId, TargetBehavior> = {
+    NORMAL: {
+        id: 'NORMAL',
+        color: '#a5b4fc', // Indigo-300
+        weight: 1,
+        hits: 1,
+        minDifficulty: 0,
+        spawnWeight: 3,
+        valueScale: 1,
+        currency: 1,
+        sound: 'normal',
+        guide: { description: 'Standard bounce. Good for combos.', dot: 'bg-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.5)]', accent: 'text-indigo-400' },
+    },
+    BOOST: {
+        id: 'BOOST',
+        color: '#4ade80', // Green-400
+        weight: 1,
+        hits: 1,
+        minDifficulty: 0,
+        spawnWeight: 1,
+        earlyWeight: 2,
+        valueScale: 0.5,
+        currency: 1,
+        afterHit: ({ player }) => {
+            player.vx *= 1.5;
+            player.vy -= 5;
+        },
+        sound: 'boost',
+        callout: { text: 'BOOST!', size: 30, rise: 80 },
+        guide: { description: 'Explosive speed boost! Aim for these.', dot: 'bg-green-400 shadow-[0_0_10px_rgba(74,222,128,0.5)]', accent: 'text-green-400' },
+    },
+    BLOCK: {
+        id: 'BLOCK',
+        color: '#f87171', // Red-400
+        weight: 2,
+        hits: 1,
+        minDifficulty: 0,
+        spawnWeight: 1,
+        valueScale: 1.5,
+        currency: 1,
+        sound: 'block',
+        guide: { description: 'Heavy & Slow. Avoid unless you have high MASS to smash them!', dot: 'bg-red-400 shadow-[0_0_10px_rgba(248,113,113,0.5)]', accent: 'text-red-400' },
+    },
+    COIN: {
+        id: 'COIN',
+        color: '#fbbf24', // Amber-400
+        weight: 0.1,
+        hits: 1,
+        minDifficulty: 0,
+        spawnWeight: 1,
+        valueScale: 1,
+        fixedValue: 1,
+        currency: 10,
+        soft: true,
+        sound: 'coin',
+        callout: { text: '+$10', size: 24, rise: 40 },
+        guide: { description: 'Gives you currency ($10) to buy upgrades.', dot: 'bg-amber-400 shadow-[0_0_10px_rgba(251,191,36,0.5)]', accent: 'text-amber-400' },
+    },
+    MULTI_HIT: {
+        id: 'MULTI_HIT',
+        color: '#d97706', // Amber-600 (Tough look)
+        weight: 1.5,
+        hits: 3,
+        minDifficulty: 1.5,
+        spawnWeight: 1,
+        valueScale: 2, // High value
+        currency: 1,
+        sound: 'normal',
+        draw: (ctx, num, y) => {
+            if ((num.hitsRequired || 0) <= 1) return;
+            drawLabel(ctx, `${num.hitsRequired} HP`, num.x, y + 15);
+
+            // Draw health ring
+            ctx.beginPath();
+            ctx.arc(num.x, y, num.radius - 2, 0, Math.PI * 2);
+            ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        },
+        guide: { description: 'Takes a few hits to get past, unless you smash it.', dot: 'bg-amber-600 shadow-[0_0_10px_rgba(217,119,6,0.5)]', accent: 'text-amber-600' },
+    },
+    MOVING: {
+        id: 'MOVING',
+        color: '#c084fc', // Purple-400
+        weight: 1,
+        hits: 1,
+        minDifficulty: 1.2,
+        spawnWeight: 1,
+        valueScale: 1.2,
+        currency: 1,
+        init: num => {
+            num.isMoving = true;
+        },
+        spawn: (num, rng) => {
+            num.moveSpeed = randomRange(0.02, 0.05, rng);
+            num.moveRange = randomRange(30, 80, rng);
+        },
+        sound: 'normal',
+        guide: { description: 'Rises and dips. Time your throw.', dot: 'bg-purple-400 shadow-[0_0_10px_rgba(192,132,252,0.5)]', accent: 'text-purple-400' },
+    },
+    GHOST: {
+        id: 'GHOST',
+        color: '#22d3ee', // Cyan-400
+        weight: 1,
+        hits: 1,
+        minDifficulty: 2.0,
+        spawnWeight: 1,
+        valueScale: 1.5,
+        currency: 1,
+        init: num => {
+            num.opacity = 0.5; // Starts semi-transparent
+        },
+        opacity: getGhostOpacity,
+        sound: 'normal',
+        guide: { description: 'Fades in and out. You fly straight through it while it is faint.', dot: 'bg-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.5)]', accent: 'text-cyan-400' },
+    },
+    PORTAL: {
+        id: 'PORTAL',
+        color: '#f472b6', // Pink-400
+        weight: 1,
+        hits: 1,
+        minDifficulty: 1.3,
+        spawnWeight: 1,
+        valueScale: 0.5,
+        currency: 1,
+        init: num => {
+            num.exitX = num.x + PORTAL_JUMP;
+        },
+        spawn: (num, rng) => {
+            num.exitX = num.x + randomRange(300, 500, rng);
+        },
+        // No bounce and no sinking: the stone comes out of the paired exit further on
+        collide: hit => {
+            const { world, player: p, target: num } = hit;
+            if (num.exitX === undefined) return;
+            p.x = num.exitX;
+            p.y = SURFACE_Y - PORTAL_EXIT_HEIGHT - p.radius;
+            p.vy = -Math.abs(p.vy) * world.stats.bounciness;
+            world.scoreHit(hit, false, 0);
+            world.emit({ type: 'portal', x: num.x, y: hit.targetY, exitX: p.x, exitY: p.y });
+            num.sunk = true;
+        },
+        sound: 'portal',
+        drawUnder: (ctx, num, _y, time) => {
+            if (num.exitX === undefined) return;
+            ctx.save();
+            ctx.globalAlpha = num.sunk ? 0.3 : 0.8;
+            ctx.beginPath();
+            ctx.ellipse(num.exitX, SURFACE_Y - PORTAL_EXIT_HEIGHT, 30, 45, 0, 0, Math.PI * 2);
+            ctx.strokeStyle = num.color;
+            ctx.lineWidth = 4;
+            ctx.setLineDash([8, 6]);
+            ctx.lineDashOffset = -time * 20;
+            ctx.stroke();
+            ctx.fillStyle = num.color;
+            ctx.font = 'bold 10px "Inter"';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText('OUT', num.exitX, SURFACE_Y - PORTAL_EXIT_HEIGHT);
+            ctx.restore();
+        },
+        draw: (ctx, num, y, time) => {
+            ctx.beginPath();
+            ctx.arc(num.x, y, num.radius - 6, time * 2, time * 2 + Math.PI * 1.5);
+            ctx.strokeStyle = '#fff';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        },
+        guide: { description: 'Warps you forward to its OUT ring. Never sinks you.', dot: 'bg-pink-400 shadow-[0_0_10px_rgba(244,114,182,0.5)]', accent: 'text-pink-400' },
+    },
+    BUMPER: {
+        id: 'BUMPER',
+        color: '#e879f9', // Fuchsia-400
+        weight: 1,
+        hits: 1,
+        minDifficulty: 1.1,
+        spawnWeight: 1,
+        valueScale: 0.8,
+        currency: 1,
+        // Always throws the stone back out, faster than it came in
+        collide: hit => {
+            const { player: p, target: num, dx, dy, dist, minDist } = hit;
+            const nx = dist > 0 ? dx / dist : 0;
+            const ny = dist > 0 ? dy / dist : -1;
+            const along = p.vx * nx + p.vy * ny;
+            if (along < 0) {
+                p.vx -= 2 * along * nx;
+                p.vy -= 2 * along * ny;
+            }
+            p.vx = Math.abs(p.vx); // Never back towards the plank
+            const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+            const scale = speed > 0 ? Math.min(MAX_BUMPER_SPEED, speed * BUMPER_BOOST) / speed : 0;
+            p.vx *= scale;
+            p.vy *= scale;
+            p.x = num.x + nx * minDist;
+            p.y = hit.targetY + ny * minDist;
+            p.vr *= BUMPER_SPIN_KEPT;
+            hit.world.scoreHit(hit, false, 0);
+            num.sunk = true;
+        },
+        sound: 'bumper',
+        callout: { text: 'BOING!', size: 30, rise: 80 },
+        draw: (ctx, num, y) => {
+            ctx.beginPath();
+            ctx.arc(num.x, y, num.radius + 4, 0, Math.PI * 2);
+            ctx.strokeStyle = num.color;
+            ctx.lineWidth = 4;
+            ctx.stroke();
+        },
+        guide: { description: 'Throws you back out faster than you came in.', dot: 'bg-fuchsia-400 shadow-[0_0_10px_rgba(232,121,249,0.5)]', accent: 'text-fuchsia-400' },
+    },
+    MAGNET: {
+        id: 'MAGNET',
+        color: '#94a3b8', // Slate-400
+        weight: 1.2,
+        hits: 1,
+        minDifficulty: 1.6,
+        spawnWeight: 1,
+        valueScale: 1.2,
+        currency: 1,
+        // Bends the stone towards it before it gets there; heavy stones bend less
+        inFlight: (world, p, num) => {
+            const dx = num.x - p.x;
+            const dy = world.getTargetY(num) - p.y;
+            const dist = Math.sqrt(dx*dx + dy*dy);
+            if (dist >= MAGNET_RANGE || dist < 1) return;
+            const pull = MAGNET_PULL * (1 - dist / MAGNET_RANGE) / (world.stats.weight || 1.0);
+            p.vx += (dx / dist) * pull;
+            p.vy += (dy / dist) * pull;
+        },
+        sound: 'magnet',
+        drawUnder: (ctx, num, y, time) => {
+            if (num.sunk) return;
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(num.x, y, MAGNET_RANGE * (0.6 + 0.4 * ((time * 0.5) % 1)), 0, Math.PI * 2);
+            ctx.strokeStyle = 'rgba(148, 163, 184, 0.25)';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+            ctx.restore();
+        },
+        guide: { description: 'Pulls you in from a distance. Light stones bend the most.', dot: 'bg-slate-400 shadow-[0_0_10px_rgba(148,163,184,0.5)]', accent: 'text-slate-400' },
+    },
+    BOMB: {
+        id: 'BOMB',
+        color: '#fb923c', // Orange-400
+        weight: 0.5,
+        hits: 1,
+        minDifficulty: 1.8,
+        spawnWeight: 1,
+        valueScale: 0.5,
+        currency: 1,
+        // Sinks every target in the blast, each worth its plain value (no combo)
+        afterHit: ({ world, target: bomb, targetY }) => {
+            const caught = world.surface.filter(num => !num.sunk && Math.abs(num.x - bomb.x) <= BOMB_RADIUS);
+            let points = 0;
+            for (const num of caught) {
+                num.sunk = true;
+                points += num.value * 10;
+            }
+            points = Math.floor(points * world.getEffectScale('scoreScale'));
+            world.score += points;
+            world.currency += caught.length;
+            world.emit({ type: 'bomb', x: bomb.x, y: targetY, radius: BOMB_RADIUS, targets: caught, points, currency: caught.length });
+        },
+        sound: 'bomb',
+        draw: (ctx, num, y) => drawLabel(ctx, 'BOMB', num.x, y + 15),
+        guide: { description: 'Sinks every target around it and scores them all.', dot: 'bg-orange-400 shadow-[0_0_10px_rgba(251,146,60,0.5)]', accent: 'text-orange-400' },
+    },
+};
+
+export const TARGET_TYPE_IDS = Object.keys(TARGET_TYPES) as TargetTypeId[];
+
+// Own keys only, so names inherited from Object ("toString", "__proto__") aren't target types
+export const isTargetType = (type: unknown): type is TargetTypeId => typeof type === 'string' && Object.hasOwn(TARGET_TYPES, type);
+
+// Default target size for a value
+export const getTargetRadius = (value: number) => 35 + (value % 10); // Bigger targets (was 20)
+
+// `extraTypes` go into the bag on top of the defaults (biomes use it to favour their own targets)
+export const generateSurfaceNumber = (x: number, difficultyMultiplier: number, rng: Rng = Math.random, extraTypes: TargetTypeId[] = []): SurfaceNumber => {
+    // Every type past its difficulty goes in the bag
+    const types: TargetTypeId[] = [];
+    for (const behavior of Object.values(TARGET_TYPES)) {
+        if (difficultyMultiplier <= behavior.minDifficulty) continue;
+        let count = behavior.spawnWeight;
+        if (difficultyMultiplier < EARLY_DIFFICULTY) count += behavior.earlyWeight ?? 0;
+        for (let i = 0; i < count; i++) types.push(behavior.id);
+    }
+    types.push(...extraTypes);
+
+    const behavior = TARGET_TYPES[types[Math.floor(rng() * types.length)]];
+
+    let value = Math.floor(randomRange(1, 10, rng) * difficultyMultiplier);
+    value = behavior.fixedValue ?? Math.floor(value * behavior.valueScale);
+
+    const num: SurfaceNumber = {
+        id: '',
+        x,
+        y: 0, // Relative to surface level
+        initialY: 0,
+        value: Math.max(1, value),
+        weight: behavior.weight,
+        radius: getTargetRadius(value),
+        color: behavior.color,
+        type: behavior.id,
+        sunk: false,
+        hitsRequired: behavior.hits,
+        maxHits: behavior.hits,
+        isMoving: false,
+        moveSpeed: 0,
+        moveRange: 0,
+        opacity: 1
+    };
+    behavior.init?.(num);
+    behavior.spawn?.(num, rng);
+    num.id = rng().toString(36).substr(2, 9);
+    return num;
+};
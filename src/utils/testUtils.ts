@@ -0,0 +1,44 @@
+import { LevelTarget } from '../types';
+import { SURFACE_Y } from './gameUtils';
+import { PhysicsWorld } from './physics';
+import { parseLevel } from './levels';
+
+// Shared setup for the headless tests
+
+// Levels give a fixed lake, so each outcome can be set up by hand
+export const lake = (targets: Partial<LevelTarget>[], extra: Record<string, unknown> = {}) =>
+    parseLevel({ id: 'test', name: 'Test', start: { x: 100, y: 420 }, goal: 1000, par: 0, targets, ...extra });
+
+// Throws whenever the stone is ready, until the run ends
+export const playRun = (world: PhysicsWorld, maxSteps = 20000) => {
+    world.launch(180, -60);
+    for (let i = 0; i < maxSteps && world.status !== 'GAME_OVER'; i++) {
+        world.step();
+        if (world.status === 'AIMING') world.launch(180, -60);
+    }
+    return world;
+};
+
+// Drops the stone onto the lake's first target at (vx, vy) and returns that step's events
+export const hitFirstTarget = (world: PhysicsWorld, vx = 5, vy = 5) => {
+    world.launch(150, -40);
+    world.step();
+    const target = world.surface[0];
+    world.player.x = target.x;
+    world.player.y = world.getTargetY(target) - 5;
+    world.player.vx = vx;
+    world.player.vy = vy;
+    return world.step();
+};
+
+// Puts the stone just above open water, about to touch down at (vx, vy), and returns that step's events
+export const touchWater = (world: PhysicsWorld, vx: number, vy: number, vr = 0) => {
+    world.launch(150, -40);
+    const p = world.player;
+    p.x = 300;
+    p.y = SURFACE_Y - p.radius - 1;
+    p.vx = vx;
+    p.vy = vy;
+    p.vr = vr;
+    return world.step();
+};
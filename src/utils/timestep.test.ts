@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PLAYER_STATS, FIXED_DT, PhysicsWorld } from './physics';
+import { getStepAlpha, lerp, runFixedSteps } from './timestep';
+
+// Feeds `frames` frames of `frameTime` seconds through the accumulator, like the game loop does
+const runFrames = (world: PhysicsWorld, frameTime: number, frames: number, carried = 0) => {
+    let accumulated = carried;
+    for (let i = 0; i < frames; i++) {
+        accumulated = runFixedSteps(accumulated + frameTime, () => world.step());
+    }
+    return accumulated;
+};
+
+describe('fixed-step accumulator', () => {
+    it('takes whole steps and carries the rest over', () => {
+        let steps = 0;
+        const left = runFixedSteps(FIXED_DT * 2.5, () => steps++);
+        expect(steps).toBe(2);
+        expect(getStepAlpha(left)).toBeCloseTo(0.5);
+        expect(runFixedSteps(FIXED_DT * 0.4, () => steps++)).toBeCloseTo(FIXED_DT * 0.4);
+        expect(steps).toBe(2);
+    });
+
+    it('simulates the same run at any refresh rate', () => {
+        const fast = new PhysicsWorld(3, DEFAULT_PLAYER_STATS);
+        const slow = new PhysicsWorld(3, DEFAULT_PLAYER_STATS);
+        fast.launch(180, -60);
+        slow.launch(180, -60);
+        // Two seconds plus half a step, so float error can't tip either one over a step boundary
+        runFrames(fast, 1 / 144, 288, FIXED_DT / 2);
+        runFrames(slow, 1 / 30, 60, FIXED_DT / 2);
+        expect(fast.tick).toBe(120);
+        expect(slow.tick).toBe(fast.tick);
+        expect(slow.player).toEqual(fast.player);
+    });
+
+    it('draws between the last two steps', () => {
+        expect(lerp(10, 20, 0)).toBe(10);
+        expect(lerp(10, 20, 0.25)).toBe(12.5);
+        expect(lerp(10, 20, 1)).toBe(20);
+    });
+});
@@ -0,0 +1,19 @@
+import { FIXED_DT } from './physics';
+
+// The game loop banks real frame time and the simulation spends it in whole FIXED_DT steps.
+// Whatever is left over says how far the drawn frame sits between the last two steps.
+
+// Runs `step` once for every whole step in `accumulated` seconds and returns the time left over
+export const runFixedSteps = (accumulated: number, step: () => void) => {
+    let left = accumulated;
+    while (left >= FIXED_DT) {
+        left -= FIXED_DT;
+        step();
+    }
+    return left;
+};
+
+// 0 draws the previous step, 1 the latest one
+export const getStepAlpha = (leftover: number) => leftover / FIXED_DT;
+
+export const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_UPGRADE_LEVELS, UPGRADES, clampLevels, getPlayerStats, getStatValue, getUpgradeCost, levelsFromStats } from './upgrades';
+import { STONE_TYPE_IDS } from './stones';
+
+describe('upgrade catalog', () => {
+    it('keeps every stat inside its caps for every stone', () => {
+        for (const stone of STONE_TYPE_IDS) {
+            for (const upgrade of UPGRADES) {
+                for (let level = 0; level <= upgrade.maxLevel + 5; level++) {
+                    const value = getStatValue(upgrade, level, stone);
+                    expect(value).toBeGreaterThanOrEqual(upgrade.min);
+                    expect(value).toBeLessThanOrEqual(upgrade.max);
+                }
+            }
+        }
+    });
+
+    it('never lets a bounce add energy', () => {
+        const maxed = Object.fromEntries(UPGRADES.map(upgrade => [upgrade.id, upgrade.maxLevel])) as typeof DEFAULT_UPGRADE_LEVELS;
+        for (const stone of STONE_TYPE_IDS) {
+            expect(getPlayerStats(maxed, stone).bounciness).toBeLessThan(1);
+        }
+    });
+
+    it('raises prices level by level and stops selling at the cap', () => {
+        for (const upgrade of UPGRADES) {
+            for (let level = 1; level < upgrade.maxLevel; level++) {
+                expect(getUpgradeCost(upgrade, level)).toBeGreaterThan(getUpgradeCost(upgrade, level - 1)!);
+            }
+            expect(getUpgradeCost(upgrade, upgrade.maxLevel)).toBeNull();
+        }
+    });
+
+    it('clamps saved levels to whole levels within each cap', () => {
+        const levels = clampLevels({ ...DEFAULT_UPGRADE_LEVELS, weight: 99, spin: -3, maxPower: 2.7 });
+        expect(levels).toEqual({ ...DEFAULT_UPGRADE_LEVELS, weight: 10, spin: 0, maxPower: 2 });
+    });
+
+    it('recovers levels from the stats they buy', () => {
+        const levels = { ...DEFAULT_UPGRADE_LEVELS, weight: 3, bounciness: 2, maxPower: 7 };
+        expect(levelsFromStats(getPlayerStats(levels))).toEqual(levels);
+    });
+});
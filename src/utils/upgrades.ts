@@ -0,0 +1,126 @@
+import { PlayerStats, StoneTypeId, UpgradeDef, UpgradeId, UpgradeLevels } from '../types';
+import { DEFAULT_PLAYER_STATS } from './physics';
+import { getStoneType } from './stones';
+
+// The shop catalog. Rebalance here: the shop grid, the save and server verification all read from it.
+export const UPGRADES: UpgradeDef[] = [
+    {
+        id: 'weight',
+        name: 'MASS',
+        description: 'Increase size to SMASH through blocks without stopping.',
+        icon: 'M2 12a10 10 0 1 0 20 0a10 10 0 1 0 -20 0',
+        accent: 'text-indigo-400 hover:border-indigo-500',
+        baseCost: 100,
+        costGrowth: 1.35,
+        increment: 0.2,
+        maxLevel: 10,
+        min: 0.5,
+        max: 3,
+        format: value => `${value.toFixed(1)}x mass`,
+    },
+    {
+        id: 'aerodynamics',
+        name: 'AERO',
+        description: 'Reduce air resistance to fly further and faster.',
+        icon: 'M2 12h20 M19 12l-7-7 M19 12l-7 7',
+        accent: 'text-sky-400 hover:border-sky-500',
+        baseCost: 500,
+        costGrowth: 1.5,
+        increment: 0.001,
+        maxLevel: 9,
+        min: 0.9,
+        max: 0.999,
+        format: value => `${((1 - value) * 100).toFixed(1)}% drag`,
+    },
+    {
+        id: 'bounciness',
+        name: 'BOUNCE',
+        description: 'Retain more velocity after hitting targets.',
+        icon: 'M12 5v14 M19 12l-7 7-7-7',
+        accent: 'text-emerald-400 hover:border-emerald-500',
+        baseCost: 250,
+        costGrowth: 1.6,
+        increment: 0.05,
+        maxLevel: 5,
+        min: 0,
+        max: 0.95, // Must stay below 1 or bounces would add energy
+        format: value => `${Math.round(value * 100)}% kept`,
+    },
+    {
+        id: 'maxPower',
+        name: 'POWER',
+        description: 'Increase maximum launch velocity.',
+        icon: 'M13 2L3 14h9l-1 8 10-12h-9l1-8z',
+        accent: 'text-rose-400 hover:border-rose-500',
+        baseCost: 125,
+        costGrowth: 1.25,
+        increment: 2,
+        maxLevel: 20,
+        min: 10,
+        max: 65,
+        format: value => `${value} max power`,
+    },
+    {
+        id: 'spin',
+        name: 'SPIN',
+        description: 'Flick harder. Spin adds lift and lets steeper throws still skip.',
+        icon: 'M12 2a10 10 0 1 0 10 10h-3a7 7 0 1 1-7-7V2z M12 2l4 3-4 3z',
+        accent: 'text-amber-400 hover:border-amber-500',
+        baseCost: 200,
+        costGrowth: 1.4,
+        increment: 0.05,
+        maxLevel: 10,
+        min: 0,
+        max: 0.8,
+        format: value => `${Math.round(value * 60 / (Math.PI * 2))} rev/s`,
+    },
+];
+
+export const DEFAULT_UPGRADE_LEVELS: UpgradeLevels = {
+    weight: 0,
+    aerodynamics: 0,
+    bounciness: 0,
+    maxPower: 0,
+    spin: 0,
+};
+
+export const getUpgrade = (id: UpgradeId) => UPGRADES.find(upgrade => upgrade.id === id)!;
+
+// Price of the next level, or null once maxed
+export const getUpgradeCost = (upgrade: UpgradeDef, level: number) =>
+    level >= upgrade.maxLevel ? null : Math.round(upgrade.baseCost * upgrade.costGrowth ** level);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Levels add on top of the chosen stone type's base stats
+export const getStatValue = (upgrade: UpgradeDef, level: number, stone?: StoneTypeId) =>
+    clamp(getStoneType(stone).stats[upgrade.id] + level * upgrade.increment, upgrade.min, upgrade.max);
+
+// The stone a set of upgrade levels buys
+export const getPlayerStats = (levels: UpgradeLevels, stone?: StoneTypeId): PlayerStats => {
+    const stats = { ...getStoneType(stone).stats };
+    for (const upgrade of UPGRADES) {
+        stats[upgrade.id] = getStatValue(upgrade, levels[upgrade.id], stone);
+    }
+    return stats;
+};
+
+// Whole levels within each upgrade's cap
+export const clampLevels = (levels: UpgradeLevels): UpgradeLevels => {
+    const result = { ...levels };
+    for (const upgrade of UPGRADES) {
+        result[upgrade.id] = clamp(Math.floor(levels[upgrade.id]), 0, upgrade.maxLevel);
+    }
+    return result;
+};
+
+// Nearest level for a raw stat value, for saves that stored stats instead of levels
+export const levelsFromStats = (stats: Partial<PlayerStats>): UpgradeLevels => {
+    const levels = { ...DEFAULT_UPGRADE_LEVELS };
+    for (const upgrade of UPGRADES) {
+        const value = stats[upgrade.id];
+        if (typeof value !== 'number') continue;
+        levels[upgrade.id] = Math.round((value - DEFAULT_PLAYER_STATS[upgrade.id]) / upgrade.increment);
+    }
+    return clampLevels(levels);
+};
@@ -0,0 +1,46 @@
+import { Weather } from '../types';
+import { createRng, hashString } from './rng';
+
+// Weather changes every WEATHER_ZONE pixels. Each zone's conditions come from the run seed,
+// so replays and the Daily Challenge (everyone shares its seed) see the same skies.
+
+export const WEATHER_ZONE = 4000; // 400m
+const MAX_WIND = 0.06; // About 7% of gravity
+
+export const CALM_WEATHER: Weather = { wind: 0, chop: 0, rain: 0, fog: 0 };
+
+export const getWeatherZone = (x: number) => Math.max(0, Math.floor(x / WEATHER_ZONE));
+
+export const getWeather = (seed: number, zone: number): Weather => {
+    const rng = createRng(hashString(`${seed}:${zone}`));
+    // Later zones get rougher
+    const intensity = Math.min(1, 0.4 + zone * 0.15);
+    // Always draw every roll so each condition stays independent of the others
+    const wind = (rng() * 2 - 1) * MAX_WIND * intensity;
+    const chopRoll = rng();
+    const chop = rng() * intensity;
+    const rainRoll = rng();
+    const rain = 0.4 + rng() * 0.6;
+    const fogRoll = rng();
+    const fog = 0.4 + rng() * 0.5;
+    return {
+        wind,
+        chop: chopRoll < 0.35 ? chop : 0,
+        rain: rainRoll < 0.3 ? rain : 0,
+        fog: fogRoll < 0.2 ? fog : 0,
+    };
+};
+
+// Multiplier on wave height (target bobbing and the drawn waves)
+export const getWaveScale = (weather: Weather) => 1 + weather.chop * 2;
+
+// Short labels for the HUD
+export const describeWeather = (weather: Weather) => {
+    const labels: string[] = [];
+    const windLevel = Math.round((Math.abs(weather.wind) / MAX_WIND) * 5);
+    if (windLevel > 0) labels.push(`WIND ${weather.wind > 0 ? '→' : '←'}${windLevel}`);
+    if (weather.chop > 0.2) labels.push('CHOPPY');
+    if (weather.rain > 0) labels.push('RAIN');
+    if (weather.fog > 0) labels.push('FOG');
+    return labels.length ? labels : ['CALM'];
+};